@@ -14,6 +14,8 @@ import { PaymentsModule } from './modules/payments/payments.module';
 import { UploadsModule } from './modules/uploads/uploads.module';
 import { MetakockaModule } from './modules/metakocka/metakocka.module';
 import { ConfigurationModule } from './modules/configuration/configuration.module';
+import { ReturnsModule } from './modules/returns/returns.module';
+import { InvoicesModule } from './modules/invoices/invoices.module';
 
 @Module({
   imports: [
@@ -54,6 +56,8 @@ import { ConfigurationModule } from './modules/configuration/configuration.modul
     UploadsModule,
     MetakockaModule,
     ConfigurationModule,
+    ReturnsModule,
+    InvoicesModule,
   ],
 })
 export class AppModule { }
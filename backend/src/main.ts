@@ -4,7 +4,8 @@ import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Payment webhooks are verified against the raw request body
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable CORS
   // In development we fall back to a permissive origin if FRONTEND_URL is not set.
@@ -1,10 +1,12 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, EntityManager } from 'typeorm';
 import { v4 as uuidv4 } from 'uuid';
 import { Cart } from './entities/cart.entity';
 import { CartItem } from './entities/cart-item.entity';
 import { ProductsService } from '../products/products.service';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
 
@@ -47,7 +49,12 @@ export class CartService {
   }
 
   async getCart(userId?: string, guestToken?: string): Promise<Cart> {
-    return this.getOrCreateCart(userId, guestToken);
+    const cart = await this.getOrCreateCart(userId, guestToken);
+    // The cart's own checkout reservation is stock its owner is already holding
+    const products = (cart.items || []).map((item) => item.product).filter(Boolean);
+    const variants = (cart.items || []).map((item) => item.variant).filter(Boolean);
+    await this.productsService.applyAvailability(products, cart.id, variants);
+    return cart;
   }
 
   async addItem(userId: string | undefined, guestToken: string | undefined, addToCartDto: AddToCartDto): Promise<Cart> {
@@ -64,6 +71,13 @@ export class CartService {
       }
     }
 
+    const variant = addToCartDto.variantId
+      ? product.variants?.find((v) => v.id === addToCartDto.variantId && v.isActive)
+      : undefined;
+    if (addToCartDto.variantId && !variant) {
+      throw new NotFoundException('Product variant not found');
+    }
+
     // Check if item already exists
     let cartItem = cart.items?.find(
       (item) =>
@@ -71,6 +85,10 @@ export class CartService {
         (item.variantId === addToCartDto.variantId || (!item.variantId && !addToCartDto.variantId))
     );
 
+    // Availability again, this time without the stock this cart is already holding
+    await this.productsService.applyAvailability([product], cart.id);
+    this.assertQuantityAvailable(cart, product, variant, (cartItem?.quantity || 0) + addToCartDto.quantity, cartItem);
+
     if (cartItem) {
       cartItem.quantity += addToCartDto.quantity;
     } else {
@@ -108,6 +126,9 @@ export class CartService {
     if (updateDto.quantity <= 0) {
       await this.cartItemsRepository.remove(item);
     } else {
+      if (updateDto.quantity > item.quantity && item.product) {
+        this.assertQuantityAvailable(cart, item.product, item.variant, updateDto.quantity, item);
+      }
       item.quantity = updateDto.quantity;
       await this.cartItemsRepository.save(item);
     }
@@ -130,12 +151,34 @@ export class CartService {
     return this.getCart(userId, guestToken);
   }
 
-  async clearCart(userId?: string, guestToken?: string): Promise<void> {
+  /**
+   * A line may not ask for more than the variant has, and all lines of a product
+   * together may not ask for more than the product has.
+   */
+  private assertQuantityAvailable(
+    cart: Cart,
+    product: Product,
+    variant: ProductVariant | null | undefined,
+    quantity: number,
+    line?: CartItem,
+  ): void {
+    const otherLines = (cart.items || [])
+      .filter((item) => item.productId === product.id && item !== line)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    this.productsService.assertInStock(product, otherLines + quantity);
+    if (variant) {
+      this.productsService.assertInStock(product, quantity, variant);
+    }
+  }
+
+  async clearCart(userId?: string, guestToken?: string, manager?: EntityManager): Promise<void> {
     const cart = await this.getCart(userId, guestToken);
     if (cart.items && cart.items.length > 0) {
-      await this.cartItemsRepository.remove(cart.items);
-      cart.subtotal = 0;
-      await this.cartsRepository.save(cart);
+      const cartItemsRepository = manager ? manager.getRepository(CartItem) : this.cartItemsRepository;
+      const cartsRepository = manager ? manager.getRepository(Cart) : this.cartsRepository;
+      await cartItemsRepository.remove(cart.items);
+      // Saving the whole cart would cascade the removed items back in
+      await cartsRepository.update(cart.id, { subtotal: 0 });
     }
   }
 
@@ -0,0 +1,108 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+
+export interface InvoiceParty {
+  name: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  country: string;
+  vatId?: string;
+  registrationNumber?: string;
+  email?: string;
+  phone?: string;
+  iban?: string;
+  bic?: string;
+  bank?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number; // Net, excl. VAT
+  taxRate: number; // Percent, e.g. 22
+  netAmount: number;
+}
+
+/**
+ * An issued invoice. Seller, buyer and lines are snapshots taken at issue time
+ * so the document can be re-rendered unchanged even if the order is edited later.
+ */
+@Entity('invoices')
+export class Invoice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  invoiceNumber: string;
+
+  @ManyToOne(() => Order, { onDelete: 'RESTRICT' })
+  order: Order;
+
+  // One invoice per order
+  @Index({ unique: true })
+  @Column()
+  orderId: string;
+
+  @Column({ type: 'timestamp' })
+  issuedAt: Date;
+
+  // Date of supply (datum opravljene dobave)
+  @Column({ type: 'timestamp' })
+  serviceDate: Date;
+
+  @Column({ type: 'jsonb' })
+  seller: InvoiceParty;
+
+  @Column({ type: 'jsonb' })
+  buyer: InvoiceParty;
+
+  @Column({ type: 'jsonb' })
+  lines: InvoiceLine[];
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  subtotal: number;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2 })
+  taxRate: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  tax: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
+  shippingCost: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
+  codFee: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
+  discount: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  total: number;
+
+  @Column({ default: 'EUR' })
+  currency: string;
+
+  @Column()
+  paymentReference: string;
+
+  @Column({ nullable: true })
+  paymentMethod: string;
+
+  // Relative to the private storage directory, never served statically
+  @Column({ nullable: true })
+  filePath: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,200 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import * as PDFDocument from 'pdfkit';
+import { Invoice, InvoiceParty } from './entities/invoice.entity';
+
+// DejaVu covers č, š, ž and the € sign, which the built-in PDF fonts do not
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_REGULAR = path.join(FONT_DIR, 'DejaVuSans.ttf');
+const FONT_BOLD = path.join(FONT_DIR, 'DejaVuSans-Bold.ttf');
+
+const PAGE_MARGIN = 50;
+const TABLE_COLUMNS = [
+  { label: 'Opis', width: 215, align: 'left' as const },
+  { label: 'Količina', width: 55, align: 'right' as const },
+  { label: 'Cena brez DDV', width: 85, align: 'right' as const },
+  { label: 'DDV', width: 45, align: 'right' as const },
+  { label: 'Znesek brez DDV', width: 95, align: 'right' as const },
+];
+
+/**
+ * Renders an issued invoice as an A4 PDF (Slovenian labels).
+ */
+@Injectable()
+export class InvoicePdfService {
+  render(invoice: Invoice, orderNumber: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: { Title: `Račun ${invoice.invoiceNumber}`, Author: invoice.seller.name },
+      });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.registerFont('regular', FONT_REGULAR);
+      doc.registerFont('bold', FONT_BOLD);
+
+      this.renderHeader(doc, invoice, orderNumber);
+      this.renderLines(doc, invoice);
+      this.renderTotals(doc, invoice);
+      this.renderPayment(doc, invoice);
+      this.renderFooter(doc, invoice.seller);
+
+      doc.end();
+    });
+  }
+
+  private renderHeader(doc: PDFKit.PDFDocument, invoice: Invoice, orderNumber: string): void {
+    const { seller, buyer } = invoice;
+    const right = doc.page.width - PAGE_MARGIN;
+
+    doc.font('bold').fontSize(16).text(seller.name, PAGE_MARGIN, PAGE_MARGIN);
+    doc.font('regular').fontSize(9);
+    this.partyLines(seller).forEach((line) => doc.text(line));
+    if (seller.vatId) doc.text(`ID za DDV: ${seller.vatId}`);
+    if (seller.registrationNumber) doc.text(`Matična številka: ${seller.registrationNumber}`);
+
+    doc.font('bold').fontSize(20).text('RAČUN', right - 200, PAGE_MARGIN, { width: 200, align: 'right' });
+    doc.font('regular').fontSize(9);
+    const meta: Array<[string, string]> = [
+      ['Številka računa', invoice.invoiceNumber],
+      ['Datum izdaje', this.formatDate(invoice.issuedAt)],
+      ['Kraj izdaje', seller.city],
+      ['Datum opravljene dobave', this.formatDate(invoice.serviceDate)],
+      ['Naročilo', orderNumber],
+    ];
+    let y = PAGE_MARGIN + 30;
+    for (const [label, value] of meta) {
+      doc.text(`${label}:`, right - 230, y, { width: 140, lineBreak: false });
+      doc.text(value, right - 90, y, { width: 90, align: 'right' });
+      y += 13;
+    }
+
+    y = Math.max(y, doc.y) + 25;
+    doc.font('bold').fontSize(10).text('Kupec', PAGE_MARGIN, y);
+    doc.font('regular').fontSize(9).text(buyer.name);
+    this.partyLines(buyer).forEach((line) => doc.text(line));
+    if (buyer.vatId) doc.text(`ID za DDV: ${buyer.vatId}`);
+    if (buyer.email) doc.text(buyer.email);
+    doc.moveDown(2);
+  }
+
+  private renderLines(doc: PDFKit.PDFDocument, invoice: Invoice): void {
+    const tableWidth = TABLE_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+
+    const row = (cells: string[], font: 'regular' | 'bold') => {
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      let height = 0;
+      doc.font(font).fontSize(9);
+      cells.forEach((cell, i) => {
+        const { width, align } = TABLE_COLUMNS[i];
+        doc.text(cell, x + 2, y, { width: width - 4, align });
+        height = Math.max(height, doc.y - y);
+        x += width;
+      });
+      doc.y = y + height + 4;
+    };
+
+    row(TABLE_COLUMNS.map((column) => column.label), 'bold');
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + tableWidth, doc.y).stroke();
+    doc.y += 4;
+
+    for (const line of invoice.lines) {
+      if (doc.y > doc.page.height - 200) {
+        doc.addPage();
+      }
+      row(
+        [
+          line.sku ? `${line.description}\n${line.sku}` : line.description,
+          String(line.quantity),
+          this.formatMoney(line.unitPrice),
+          `${this.formatNumber(line.taxRate)} %`,
+          this.formatMoney(line.netAmount),
+        ],
+        'regular',
+      );
+    }
+
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + tableWidth, doc.y).stroke();
+    doc.y += 8;
+  }
+
+  private renderTotals(doc: PDFKit.PDFDocument, invoice: Invoice): void {
+    const right = doc.page.width - PAGE_MARGIN;
+    const rate = `${this.formatNumber(Number(invoice.taxRate))} %`;
+    const rows: Array<[string, number, boolean?]> = [
+      ['Skupaj brez DDV', Number(invoice.subtotal)],
+      [`Osnova za DDV ${rate}`, Number(invoice.subtotal)],
+      [`DDV ${rate}`, Number(invoice.tax)],
+    ];
+    if (Number(invoice.shippingCost) > 0) rows.push(['Poštnina', Number(invoice.shippingCost)]);
+    if (Number(invoice.codFee) > 0) rows.push(['Strošek plačila po povzetju', Number(invoice.codFee)]);
+    if (Number(invoice.discount) > 0) rows.push(['Popust', -Number(invoice.discount)]);
+    rows.push([`Za plačilo (${invoice.currency})`, Number(invoice.total), true]);
+
+    for (const [label, amount, emphasised] of rows) {
+      const y = doc.y;
+      doc.font(emphasised ? 'bold' : 'regular').fontSize(emphasised ? 11 : 9);
+      doc.text(label, right - 250, y, { width: 150 });
+      doc.text(this.formatMoney(amount), right - 100, y, { width: 100, align: 'right' });
+      doc.y = y + (emphasised ? 16 : 13);
+    }
+    doc.moveDown(2);
+  }
+
+  private renderPayment(doc: PDFKit.PDFDocument, invoice: Invoice): void {
+    doc.font('bold').fontSize(10).text('Plačilo', PAGE_MARGIN);
+    doc.font('regular').fontSize(9);
+    if (invoice.paymentMethod) doc.text(`Način plačila: ${invoice.paymentMethod}`);
+    doc.text(`Sklic: ${invoice.paymentReference}`);
+    if (invoice.seller.iban) {
+      doc.text(`TRR: ${invoice.seller.iban}${invoice.seller.bank ? ` (${invoice.seller.bank})` : ''}`);
+    }
+    if (invoice.seller.bic) doc.text(`BIC: ${invoice.seller.bic}`);
+  }
+
+  private renderFooter(doc: PDFKit.PDFDocument, seller: InvoiceParty): void {
+    const parts = [
+      seller.name,
+      [seller.street, `${seller.postalCode} ${seller.city}`].join(', '),
+      seller.vatId && `ID za DDV: ${seller.vatId}`,
+      seller.email,
+      seller.phone,
+    ].filter(Boolean);
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise start a new page
+      doc.page.margins.bottom = 0;
+      doc.font('regular').fontSize(7).fillColor('#666666').text(
+        parts.join(' · '),
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN - 10,
+        { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false },
+      );
+    }
+  }
+
+  private partyLines(party: InvoiceParty): string[] {
+    return [party.street, `${party.postalCode} ${party.city}`.trim(), party.country].filter(Boolean);
+  }
+
+  private formatDate(date: Date): string {
+    const d = new Date(date);
+    return `${String(d.getDate()).padStart(2, '0')}.${String(d.getMonth() + 1).padStart(2, '0')}.${d.getFullYear()}`;
+  }
+
+  private formatNumber(value: number): string {
+    return Number(value).toLocaleString('sl-SI', { maximumFractionDigits: 2 });
+  }
+
+  private formatMoney(value: number): string {
+    return `${Number(value).toLocaleString('sl-SI', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Res,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Response } from 'express';
+import { InvoicesService } from './invoices.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('invoices')
+@Controller('invoices')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  @Get('order/:orderId')
+  @ApiOperation({ summary: 'Get the invoice issued for an order, if any (owner or admin)' })
+  findByOrder(@Param('orderId') orderId: string, @Request() req: any) {
+    return this.invoicesService.findByOrder(orderId, req.user);
+  }
+
+  @Get('order/:orderId/pdf')
+  @ApiOperation({ summary: 'Download the order invoice as PDF, issuing it on first request (owner or admin)' })
+  async downloadPdf(
+    @Param('orderId') orderId: string,
+    @Request() req: any,
+    @Res() res: Response,
+  ) {
+    const { invoice, pdf } = await this.invoicesService.getPdf(orderId, req.user);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=racun-${invoice.invoiceNumber}.pdf`);
+    res.send(pdf);
+  }
+}
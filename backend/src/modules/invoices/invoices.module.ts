@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Invoice } from './entities/invoice.entity';
+import { InvoicesService } from './invoices.service';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { InvoicesController } from './invoices.controller';
+import { OrdersModule } from '../orders/orders.module';
+import { SequencesModule } from '../sequences/sequences.module';
+import { ConfigurationModule } from '../configuration/configuration.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Invoice]),
+    OrdersModule,
+    SequencesModule,
+    ConfigurationModule,
+  ],
+  providers: [InvoicesService, InvoicePdfService],
+  controllers: [InvoicesController],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
@@ -0,0 +1,221 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, QueryFailedError } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Invoice, InvoiceParty, InvoiceLine } from './entities/invoice.entity';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { OrdersService } from '../orders/orders.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { Order, PaymentMethod, PaymentStatus } from '../orders/entities/order.entity';
+import { OrderActor } from '../orders/interfaces/order-actor.interface';
+import { UserRole } from '../users/entities/user.entity';
+
+// Private - invoices contain personal data and must not be served from /uploads
+const INVOICE_STORAGE_DIR = path.join(process.cwd(), 'storage', 'invoices');
+
+@Injectable()
+export class InvoicesService {
+  constructor(
+    @InjectRepository(Invoice)
+    private invoicesRepository: Repository<Invoice>,
+    private invoicePdfService: InvoicePdfService,
+    private ordersService: OrdersService,
+    private sequencesService: SequencesService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  private readonly DEFAULT_INVOICE_NUMBER_FORMAT = '{YYYY}-{SEQ:5}';
+
+  // An invoice documents a payment received, so unpaid orders do not get one
+  private readonly INVOICEABLE_PAYMENT_STATUSES = [
+    PaymentStatus.PAID,
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.REFUNDED,
+  ];
+
+  async findByOrder(orderId: string, actor: OrderActor): Promise<Invoice | null> {
+    const order = await this.ordersService.findOne(orderId);
+    this.assertCanAccess(order, actor);
+    return this.invoicesRepository.findOne({ where: { orderId } });
+  }
+
+  /**
+   * Return the order's invoice, issuing it on first request.
+   */
+  async getOrIssue(orderId: string, actor: OrderActor): Promise<{ invoice: Invoice; order: Order }> {
+    const order = await this.ordersService.findOne(orderId);
+    this.assertCanAccess(order, actor);
+
+    const existing = await this.invoicesRepository.findOne({ where: { orderId } });
+    if (existing) {
+      return { invoice: existing, order };
+    }
+
+    if (!this.INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      throw new BadRequestException('The invoice becomes available once the order has been paid');
+    }
+
+    return { invoice: await this.issue(order), order };
+  }
+
+  /**
+   * Load the stored PDF, rendering it again from the invoice snapshot if the file is missing.
+   */
+  async getPdf(orderId: string, actor: OrderActor): Promise<{ invoice: Invoice; pdf: Buffer }> {
+    const { invoice, order } = await this.getOrIssue(orderId, actor);
+
+    if (invoice.filePath) {
+      const stored = path.join(INVOICE_STORAGE_DIR, invoice.filePath);
+      if (fs.existsSync(stored)) {
+        return { invoice, pdf: await fs.promises.readFile(stored) };
+      }
+    }
+
+    const pdf = await this.invoicePdfService.render(invoice, order.orderNumber);
+    const fileName = `${invoice.invoiceNumber.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+
+    await fs.promises.mkdir(INVOICE_STORAGE_DIR, { recursive: true });
+    await fs.promises.writeFile(path.join(INVOICE_STORAGE_DIR, fileName), pdf);
+
+    invoice.filePath = fileName;
+    await this.invoicesRepository.save(invoice);
+
+    return { invoice, pdf };
+  }
+
+  private async issue(order: Order): Promise<Invoice> {
+    const seller = await this.getSeller();
+    const issuedAt = new Date();
+    const taxRate = Number(order.subtotal) > 0 ? (Number(order.tax) / Number(order.subtotal)) * 100 : 0;
+
+    try {
+      // Number and insert together so a failed insert does not leave a gap in the numbering
+      return await this.invoicesRepository.manager.transaction(async (manager) => {
+        const invoiceNumber = await this.generateInvoiceNumber(manager, issuedAt);
+
+        return manager.save(
+          manager.create(Invoice, {
+            invoiceNumber,
+            orderId: order.id,
+            issuedAt,
+            serviceDate: order.shippedAt ?? order.paidAt ?? order.createdAt,
+            seller,
+            buyer: this.getBuyer(order),
+            lines: order.items.map((item): InvoiceLine => ({
+              description: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+              sku: item.productSku || undefined,
+              quantity: item.quantity,
+              unitPrice: Number(item.unitPrice),
+              taxRate: Math.round(taxRate * 100) / 100,
+              netAmount: Number(item.total),
+            })),
+            subtotal: order.subtotal,
+            taxRate: Math.round(taxRate * 100) / 100,
+            tax: order.tax,
+            shippingCost: order.shippingCost,
+            codFee: order.codFee,
+            discount: order.discount,
+            total: order.total,
+            // Bank transfers keep the reference the customer already paid with
+            paymentReference: order.paymentReference || `SI00 ${invoiceNumber}`,
+            paymentMethod: this.getPaymentMethodLabel(order),
+          }),
+        );
+      });
+    } catch (error) {
+      // Another request issued the invoice for this order first
+      if (error instanceof QueryFailedError && (error as QueryFailedError & { code?: string }).code === '23505') {
+        const existing = await this.invoicesRepository.findOne({ where: { orderId: order.id } });
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
+  private assertCanAccess(order: Order, actor: OrderActor): void {
+    if (actor.role !== UserRole.ADMIN && order.userId !== actor.id) {
+      throw new ForbiddenException('You do not have permission to access this invoice');
+    }
+  }
+
+  private getPaymentMethodLabel(order: Order): string {
+    if (order.paymentIntentId) {
+      return 'Plačilna kartica';
+    }
+    switch (order.paymentMethod) {
+      case PaymentMethod.BANK_TRANSFER:
+        return 'Bančno nakazilo (UPN)';
+      case PaymentMethod.CASH_ON_DELIVERY:
+        return 'Plačilo po povzetju';
+      default:
+        return order.paymentMethod;
+    }
+  }
+
+  private getBuyer(order: Order): InvoiceParty {
+    const address = order.billingAddress || order.shippingAddress;
+    if (!address) {
+      throw new NotFoundException('Order has no billing address');
+    }
+
+    return {
+      name: `${address.firstName} ${address.lastName}`.trim(),
+      street: [address.street, address.street2].filter(Boolean).join(', '),
+      postalCode: address.postalCode,
+      city: address.city,
+      country: address.country,
+      email: order.user?.email || order.guestEmail,
+      phone: address.phone,
+    };
+  }
+
+  private async getSeller(): Promise<InvoiceParty> {
+    const seller: InvoiceParty = {
+      name: await this.getSetting('SELLER_NAME'),
+      street: await this.getSetting('SELLER_STREET'),
+      postalCode: await this.getSetting('SELLER_POSTAL_CODE'),
+      city: await this.getSetting('SELLER_CITY'),
+      country: (await this.getSetting('SELLER_COUNTRY')) || 'Slovenija',
+      vatId: (await this.getSetting('SELLER_VAT_ID')) || undefined,
+      registrationNumber: (await this.getSetting('SELLER_REGISTRATION_NUMBER')) || undefined,
+      email: (await this.getSetting('SELLER_EMAIL')) || undefined,
+      phone: (await this.getSetting('SELLER_PHONE')) || undefined,
+      iban: (await this.getSetting('SELLER_IBAN')) || undefined,
+      bic: (await this.getSetting('SELLER_BIC')) || undefined,
+      bank: (await this.getSetting('SELLER_BANK')) || undefined,
+    };
+
+    if (!seller.name || !seller.street || !seller.city || !seller.vatId) {
+      throw new BadRequestException(
+        'Seller details are not configured (SELLER_NAME, SELLER_STREET, SELLER_CITY, SELLER_VAT_ID)',
+      );
+    }
+
+    return seller;
+  }
+
+  private async getSetting(key: string): Promise<string> {
+    return (await this.configurationService.get(key)) ?? this.configService.get<string>(key) ?? '';
+  }
+
+  private async generateInvoiceNumber(manager: EntityManager, issuedAt: Date): Promise<string> {
+    const configured = await this.getSetting('INVOICE_NUMBER_FORMAT');
+    const format = configured.includes('{SEQ') ? configured : this.DEFAULT_INVOICE_NUMBER_FORMAT;
+
+    const year = /\{YY(YY)?\}/.test(format) ? issuedAt.getFullYear() : 0;
+    const value = await this.sequencesService.next('invoice', year, manager);
+
+    return this.sequencesService.format(format, value, issuedAt);
+  }
+}
@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+  // Referenced from the HTML part as <img src="cid:...">
+  cid?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Sends transactional email over SMTP. Without SMTP_HOST (local development)
+ * messages are written to the log instead.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private transporter: nodemailer.Transporter | null = null;
+
+  constructor(private configService: ConfigService) {
+    const host = this.configService.get<string>('SMTP_HOST');
+    if (host) {
+      const user = this.configService.get<string>('SMTP_USER');
+      this.transporter = nodemailer.createTransport({
+        host,
+        port: Number(this.configService.get<string>('SMTP_PORT', '587')),
+        secure: this.configService.get<string>('SMTP_SECURE') === 'true',
+        auth: user ? { user, pass: this.configService.get<string>('SMTP_PASSWORD') } : undefined,
+      });
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.transporter) {
+      this.logger.log(`SMTP not configured - email to ${message.to}: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await this.transporter.sendMail({
+      from: this.configService.get<string>('MAIL_FROM') || this.configService.get<string>('SMTP_USER'),
+      ...message,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsBoolean,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '../entities/order.entity';
+
+const MAX_BULK_ORDERS = 200;
+
+export class BulkOrderIdsDto {
+  @ApiProperty({ type: [String] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BULK_ORDERS)
+  @IsUUID('4', { each: true })
+  orderIds: string[];
+}
+
+export class BulkUpdateStatusDto extends BulkOrderIdsDto {
+  @ApiProperty({ enum: OrderStatus })
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @ApiPropertyOptional({ description: 'Stored in the status history of every order' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class BulkTrackingUploadDto {
+  @ApiPropertyOptional({ description: 'Also move orders that are not shipped yet to "shipped" (or "partially_shipped")', default: true })
+  @IsOptional()
+  // Multipart fields arrive as strings, and Boolean('false') is true
+  @Transform(({ obj, key }) => (obj[key] === undefined ? undefined : String(obj[key]) === 'true'))
+  @IsBoolean()
+  markShipped?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelOrderDto {
+  @ApiProperty({ description: 'Why the order is being cancelled' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
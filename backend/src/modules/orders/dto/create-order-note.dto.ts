@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderNoteVisibility } from '../entities/order-note.entity';
+
+export class CreateOrderNoteDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  content: string;
+
+  @ApiPropertyOptional({ enum: OrderNoteVisibility, default: OrderNoteVisibility.INTERNAL })
+  @IsOptional()
+  @IsEnum(OrderNoteVisibility)
+  visibility?: OrderNoteVisibility;
+}
@@ -0,0 +1,35 @@
+import { IsString, IsUUID, IsOptional, IsInt, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AddOrderItemDto {
+  @ApiProperty()
+  @IsUUID()
+  productId: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  @ApiProperty({ minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ description: 'Why the order was changed; stored in the edit log' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class UpdateOrderItemDto {
+  @ApiProperty({ minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ description: 'Why the order was changed; stored in the edit log' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,40 @@
+import { IsOptional, IsEnum, IsDateString, IsIn } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus, PaymentStatus } from '../entities/order.entity';
+
+export class ExportOrdersDto {
+  @ApiPropertyOptional({ enum: ['csv', 'xlsx'], default: 'csv' })
+  @IsOptional()
+  @IsIn(['csv', 'xlsx'])
+  format?: 'csv' | 'xlsx';
+
+  @ApiPropertyOptional({ enum: ['order', 'item'], default: 'order', description: 'One row per order or per line item' })
+  @IsOptional()
+  @IsIn(['order', 'item'])
+  rows?: 'order' | 'item';
+
+  @ApiPropertyOptional({ enum: ['createdAt', 'paidAt'], default: 'createdAt', description: 'Which date the range applies to' })
+  @IsOptional()
+  @IsIn(['createdAt', 'paidAt'])
+  dateField?: 'createdAt' | 'paidAt';
+
+  @ApiPropertyOptional({ description: 'YYYY-MM-DD, inclusive' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'YYYY-MM-DD, inclusive' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({ enum: OrderStatus })
+  @IsOptional()
+  @IsEnum(OrderStatus)
+  status?: OrderStatus;
+
+  @ApiPropertyOptional({ enum: PaymentStatus })
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  paymentStatus?: PaymentStatus;
+}
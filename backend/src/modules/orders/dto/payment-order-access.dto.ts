@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PaymentOrderAccessDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  paymentIntentId: string;
+
+  @ApiProperty({ description: 'payment_intent_client_secret from the Stripe return URL' })
+  @IsString()
+  @IsNotEmpty()
+  clientSecret: string;
+}
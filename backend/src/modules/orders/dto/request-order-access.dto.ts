@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestOrderAccessDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  orderNumber: string;
+
+  @ApiProperty({ description: 'Email address used at checkout' })
+  @IsEmail()
+  email: string;
+}
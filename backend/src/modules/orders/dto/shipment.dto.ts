@@ -0,0 +1,86 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsUrl,
+  IsUUID,
+  IsInt,
+  IsArray,
+  Min,
+  MaxLength,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ShipmentCarrier, ShipmentStatus } from '../entities/shipment.entity';
+
+export class ShipmentItemDto {
+  @ApiProperty()
+  @IsUUID()
+  orderItemId: string;
+
+  @ApiProperty({ minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateShipmentDto {
+  @ApiProperty({ enum: ShipmentCarrier })
+  @IsEnum(ShipmentCarrier)
+  carrier: ShipmentCarrier;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  trackingNumber: string;
+
+  @ApiPropertyOptional({ description: "Tracking link, when it does not follow the carrier's template" })
+  @IsOptional()
+  @IsUrl()
+  trackingUrl?: string;
+
+  @ApiPropertyOptional({
+    type: [ShipmentItemDto],
+    description: 'What goes into this parcel; everything not shipped yet when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ShipmentItemDto)
+  items?: ShipmentItemDto[];
+
+  @ApiPropertyOptional({ description: 'Move the order to (partially) shipped', default: true })
+  @IsOptional()
+  @IsBoolean()
+  markShipped?: boolean;
+}
+
+export class UpdateShipmentDto {
+  @ApiPropertyOptional({ enum: ShipmentStatus })
+  @IsOptional()
+  @IsEnum(ShipmentStatus)
+  status?: ShipmentStatus;
+
+  @ApiPropertyOptional({ enum: ShipmentCarrier })
+  @IsOptional()
+  @IsEnum(ShipmentCarrier)
+  carrier?: ShipmentCarrier;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  trackingNumber?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl()
+  trackingUrl?: string;
+}
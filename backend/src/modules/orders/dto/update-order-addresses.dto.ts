@@ -0,0 +1,23 @@
+import { IsOptional, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AddressDto } from './create-order.dto';
+
+export class UpdateOrderAddressesDto {
+  @ApiPropertyOptional({ type: AddressDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AddressDto)
+  shippingAddress?: AddressDto;
+
+  @ApiPropertyOptional({ type: AddressDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AddressDto)
+  billingAddress?: AddressDto;
+
+  @ApiPropertyOptional({ description: 'Why the order was changed; stored in the edit log' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -17,4 +17,9 @@ export class UpdateOrderStatusDto {
   @IsOptional()
   @IsString()
   trackingNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Why the status was changed; stored in the status history' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
 }
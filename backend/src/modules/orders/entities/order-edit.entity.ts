@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export enum OrderEditAction {
+  ITEM_ADDED = 'item_added',
+  ITEM_REMOVED = 'item_removed',
+  ITEM_QUANTITY_CHANGED = 'item_quantity_changed',
+  ADDRESS_CHANGED = 'address_changed',
+}
+
+/**
+ * Audit record of a change an admin made to an existing order.
+ */
+@Entity('order_edits')
+export class OrderEdit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @Column({ type: 'enum', enum: OrderEditAction })
+  action: OrderEditAction;
+
+  // What changed, e.g. { productName, before: { quantity: 1 }, after: { quantity: 2 } }
+  @Column({ type: 'jsonb' })
+  changes: Record<string, unknown>;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  previousTotal: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  newTotal: number;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @Column({ nullable: true })
+  editedById: string;
+
+  @Column({ nullable: true })
+  editedByName: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export enum OrderNoteVisibility {
+  INTERNAL = 'internal', // Staff only
+  CUSTOMER = 'customer', // Shown to the customer on their order page
+}
+
+@Entity('order_notes')
+export class OrderNote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, (order) => order.orderNotes, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({
+    type: 'enum',
+    enum: OrderNoteVisibility,
+    default: OrderNoteVisibility.INTERNAL,
+  })
+  visibility: OrderNoteVisibility;
+
+  @Column({ nullable: true })
+  authorId: string;
+
+  // Name snapshot so the note stays attributed if the user is renamed or deleted
+  @Column({ nullable: true })
+  authorName: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+import { OrderStatus, PaymentStatus } from './order.enums';
+
+@Entity('order_status_history')
+export class OrderStatusHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, (order) => order.statusHistory, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @Column({ type: 'enum', enum: OrderStatus, nullable: true })
+  fromStatus: OrderStatus | null;
+
+  @Column({ type: 'enum', enum: OrderStatus })
+  toStatus: OrderStatus;
+
+  @Column({ type: 'enum', enum: PaymentStatus, nullable: true })
+  fromPaymentStatus: PaymentStatus | null;
+
+  @Column({ type: 'enum', enum: PaymentStatus })
+  toPaymentStatus: PaymentStatus;
+
+  // Null when the change was made by the system (e.g. payment webhook)
+  @Column({ nullable: true })
+  changedById: string;
+
+  // Name snapshot so the history stays readable if the user is renamed or deleted
+  @Column({ nullable: true })
+  changedByName: string;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -6,26 +6,18 @@ import {
   UpdateDateColumn,
   ManyToOne,
   OneToMany,
+  Index,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
 import { OrderItem } from './order-item.entity';
+import { OrderStatusHistory } from './order-status-history.entity';
+import { OrderNote } from './order-note.entity';
+import { Shipment } from './shipment.entity';
+import { OrderStatus, PaymentStatus, PaymentMethod } from './order.enums';
 
-export enum OrderStatus {
-  PENDING = 'pending',
-  PROCESSING = 'processing',
-  PAID = 'paid',
-  SHIPPED = 'shipped',
-  DELIVERED = 'delivered',
-  CANCELLED = 'cancelled',
-  REFUNDED = 'refunded',
-}
-
-export enum PaymentStatus {
-  PENDING = 'pending',
-  PAID = 'paid',
-  FAILED = 'failed',
-  REFUNDED = 'refunded',
-}
+// The enums live in their own file so entities that Order imports can use them
+// without an import cycle; re-exported for the existing imports
+export { OrderStatus, PaymentStatus, PaymentMethod };
 
 @Entity('orders')
 export class Order {
@@ -47,6 +39,15 @@ export class Order {
   @OneToMany(() => OrderItem, (item) => item.order, { cascade: true })
   items: OrderItem[];
 
+  @OneToMany(() => OrderStatusHistory, (entry) => entry.order)
+  statusHistory: OrderStatusHistory[];
+
+  @OneToMany(() => Shipment, (shipment) => shipment.order)
+  shipments: Shipment[];
+
+  @OneToMany(() => OrderNote, (note) => note.order)
+  orderNotes: OrderNote[];
+
   @Column({ type: 'decimal', precision: 10, scale: 2 })
   subtotal: number;
 
@@ -56,12 +57,20 @@ export class Order {
   @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
   shippingCost: number;
 
+  // Surcharge for cash on delivery, part of the total
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
+  codFee: number;
+
   @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
   discount: number;
 
   @Column({ type: 'decimal', precision: 10, scale: 2 })
   total: number;
 
+  // Amount charged when the order was paid. Admin edits can change the total afterwards.
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  amountPaid: number | null;
+
   @Column({
     type: 'enum',
     enum: OrderStatus,
@@ -79,7 +88,13 @@ export class Order {
   @Column({ nullable: true })
   paymentMethod: string;
 
-  @Column({ nullable: true })
+  // Reference the customer quotes on a bank transfer, e.g. "SI12 20260001236"
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  paymentReference: string | null;
+
+  // Unique so a payment can never produce more than one order
+  @Column({ nullable: true, unique: true })
   paymentIntentId: string; // Stripe payment intent
 
   // Shipping Address
@@ -113,6 +128,7 @@ export class Order {
   @Column({ type: 'text', nullable: true })
   notes: string;
 
+  // Tracking number of the latest parcel; the shipments hold the full picture
   @Column({ nullable: true })
   trackingNumber: string;
 
@@ -133,4 +149,10 @@ export class Order {
 
   @Column({ type: 'timestamp', nullable: true })
   deliveredAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  cancellationReason: string;
 }
@@ -0,0 +1,24 @@
+export enum OrderStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  PAID = 'paid',
+  PARTIALLY_SHIPPED = 'partially_shipped', // Some parcels are on their way, others still to follow
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+}
+
+export enum PaymentStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  FAILED = 'failed',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+}
+
+export enum PaymentMethod {
+  CARD = 'card',
+  BANK_TRANSFER = 'bank_transfer', // UPN payment order, paid after the order is placed
+  CASH_ON_DELIVERY = 'cash_on_delivery', // Carrier collects the total when delivering
+}
@@ -0,0 +1,28 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index } from 'typeorm';
+import { Shipment } from './shipment.entity';
+import { OrderItem } from './order-item.entity';
+
+/**
+ * How many of an order item went into a parcel.
+ */
+@Entity('shipment_items')
+export class ShipmentItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Shipment, (shipment) => shipment.items, { onDelete: 'CASCADE' })
+  shipment: Shipment;
+
+  @Index()
+  @Column()
+  shipmentId: string;
+
+  @ManyToOne(() => OrderItem, { onDelete: 'CASCADE' })
+  orderItem: OrderItem;
+
+  @Column()
+  orderItemId: string;
+
+  @Column()
+  quantity: number;
+}
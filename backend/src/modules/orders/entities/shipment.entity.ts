@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+import { ShipmentItem } from './shipment-item.entity';
+
+export enum ShipmentCarrier {
+  POSTA_SLOVENIJE = 'posta_slovenije',
+  GLS = 'gls',
+  DPD = 'dpd',
+  EXPRESS_ONE = 'express_one',
+  OTHER = 'other',
+}
+
+export enum ShipmentStatus {
+  SHIPPED = 'shipped', // Handed over to the carrier
+  IN_TRANSIT = 'in_transit',
+  DELIVERED = 'delivered',
+  RETURNED = 'returned', // Came back to us undelivered
+}
+
+@Entity('shipments')
+export class Shipment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, (order) => order.shipments, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @OneToMany(() => ShipmentItem, (item) => item.shipment, { cascade: true })
+  items: ShipmentItem[];
+
+  @Column({
+    type: 'enum',
+    enum: ShipmentCarrier,
+  })
+  carrier: ShipmentCarrier;
+
+  @Column()
+  trackingNumber: string;
+
+  // Only set for links that do not follow the carrier's template, e.g. carrier OTHER
+  @Column({ nullable: true })
+  trackingUrl: string;
+
+  @Column({
+    type: 'enum',
+    enum: ShipmentStatus,
+    default: ShipmentStatus.SHIPPED,
+  })
+  status: ShipmentStatus;
+
+  // Cash the carrier collects on delivery; only on the parcel carrying a COD order's payment
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  codAmount: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @Column({ nullable: true })
+  createdById: string;
+
+  @Column({ nullable: true })
+  createdByName: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Display name of the carrier; filled in by ShippingCarriersService, not stored
+  carrierName?: string;
+}
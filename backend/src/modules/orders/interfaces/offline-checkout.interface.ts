@@ -0,0 +1,16 @@
+import { OrderStatus, PaymentMethod } from '../entities/order.entity';
+
+/**
+ * A checkout paid outside the card flow, e.g. cash on delivery or bank transfer. Its
+ * payment details are set in the same transaction that places the order.
+ */
+export interface OfflineCheckout {
+  method: PaymentMethod;
+  // Added to the total, e.g. the cash on delivery fee
+  fee?: number;
+  // Builds the reference the customer pays with from the new order number
+  reference?: (orderNumber: string) => string;
+  // Where the order goes once placed, and why, for the status history
+  status?: OrderStatus;
+  statusReason?: string;
+}
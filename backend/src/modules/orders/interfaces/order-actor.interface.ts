@@ -0,0 +1,24 @@
+import { UserRole } from '../../users/entities/user.entity';
+
+/**
+ * The authenticated user performing a change on an order.
+ * Matches the shape that JwtStrategy attaches to `req.user`.
+ */
+export interface OrderActor {
+  id: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  role?: UserRole;
+}
+
+/**
+ * Display name stored alongside audit records (history, refunds, ...).
+ */
+export function getActorName(actor?: OrderActor): string | undefined {
+  if (!actor) {
+    return undefined;
+  }
+  const fullName = [actor.firstName, actor.lastName].filter(Boolean).join(' ');
+  return fullName || actor.email;
+}
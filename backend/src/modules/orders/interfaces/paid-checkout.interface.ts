@@ -0,0 +1,15 @@
+/**
+ * A checkout the customer already paid for. The order must come to the amount that
+ * was charged, and is built from the given lines instead of the cart if there are any.
+ */
+export interface PaidCheckout {
+  items?: PaidCheckoutLine[];
+  amount: number;
+}
+
+export interface PaidCheckoutLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price: number; // Unit price at checkout, excl. VAT
+}
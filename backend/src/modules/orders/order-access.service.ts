@@ -0,0 +1,145 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException, Inject, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { Order } from './entities/order.entity';
+import { MailService } from '../mail/mail.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { PaymentsService } from '../payments/payments.service';
+
+interface OrderAccessPayload {
+  sub: string;
+  orderNumber: string;
+  purpose: 'order-access';
+}
+
+/**
+ * Signed, expiring links that let guests view their order without an account.
+ */
+@Injectable()
+export class OrderAccessService {
+  private readonly logger = new Logger(OrderAccessService.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private ordersRepository: Repository<Order>,
+    private jwtService: JwtService,
+    private mailService: MailService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+    @Inject(forwardRef(() => PaymentsService))
+    private paymentsService: PaymentsService,
+  ) { }
+
+  // Default lifetime of a guest order link
+  private readonly DEFAULT_LINK_TTL_DAYS = 30;
+
+  async createToken(order: Pick<Order, 'id' | 'orderNumber'>): Promise<string> {
+    const payload: OrderAccessPayload = { sub: order.id, orderNumber: order.orderNumber, purpose: 'order-access' };
+    return this.jwtService.signAsync(payload, {
+      secret: this.getSecret(),
+      expiresIn: `${await this.getLinkTtlDays()}d`,
+    });
+  }
+
+  /**
+   * Whether the token was issued for this order and has not expired.
+   */
+  async verifyToken(token: string, order: Pick<Order, 'id'>): Promise<boolean> {
+    try {
+      const payload = await this.jwtService.verifyAsync<OrderAccessPayload>(token, { secret: this.getSecret() });
+      return payload.purpose === 'order-access' && payload.sub === order.id;
+    } catch {
+      return false;
+    }
+  }
+
+  async buildLink(order: Pick<Order, 'id' | 'orderNumber'>): Promise<string> {
+    const frontendUrl = (this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173').replace(/\/$/, '');
+    const token = await this.createToken(order);
+    return `${frontendUrl}/orders/${encodeURIComponent(order.orderNumber)}?token=${token}`;
+  }
+
+  async sendAccessLink(order: Order): Promise<void> {
+    if (!order.guestEmail) {
+      return;
+    }
+
+    const link = await this.buildLink(order);
+    const days = await this.getLinkTtlDays();
+    await this.mailService.send({
+      to: order.guestEmail,
+      subject: `Your order ${order.orderNumber}`,
+      text: [
+        `Hello ${order.shippingAddress?.firstName ?? ''},`.replace(' ,', ','),
+        '',
+        `You can view the status of order ${order.orderNumber} here:`,
+        link,
+        '',
+        `The link is valid for ${days} days. If it has expired, request a new one with your order number and email address on our website.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Access for the confirmation page after a Stripe redirect. The order is created by the
+   * webhook, so this answers 404 until it exists and the page keeps asking.
+   */
+  async issueForPayment(
+    paymentIntentId: string,
+    clientSecret: string,
+  ): Promise<{ orderId: string; orderNumber: string; accessToken: string | null }> {
+    if (!(await this.paymentsService.isClientSecretValid(paymentIntentId, clientSecret))) {
+      throw new ForbiddenException('Invalid payment reference');
+    }
+
+    const order = await this.ordersRepository.findOne({ where: { paymentIntentId } });
+    if (!order) {
+      throw new NotFoundException('Order is still being processed');
+    }
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      // Customers with an account view the order there instead
+      accessToken: order.userId ? null : await this.createToken(order),
+    };
+  }
+
+  /**
+   * "Find my order": email a fresh link when the order number and guest email match.
+   * Returns nothing either way, so the endpoint cannot be used to probe for orders.
+   */
+  async requestAccessLink(orderNumber: string, email: string): Promise<void> {
+    const order = await this.ordersRepository
+      .createQueryBuilder('order')
+      .where('order.orderNumber = :orderNumber', { orderNumber: orderNumber.trim().replace(/^#/, '') })
+      .andWhere('LOWER(order.guestEmail) = LOWER(:email)', { email: email.trim() })
+      .andWhere({ userId: IsNull() })
+      .getOne();
+
+    if (!order) {
+      return;
+    }
+
+    try {
+      await this.sendAccessLink(order);
+    } catch (error) {
+      this.logger.error(`Failed to send access link for order ${order.orderNumber}`, error);
+    }
+  }
+
+  // A dedicated secret keeps order links valid independently of login sessions
+  private getSecret(): string {
+    return this.configService.get<string>('ORDER_ACCESS_SECRET') || this.configService.get<string>('JWT_SECRET') || '';
+  }
+
+  private async getLinkTtlDays(): Promise<number> {
+    const value =
+      (await this.configurationService.get('GUEST_ORDER_LINK_TTL_DAYS')) ??
+      this.configService.get<string>('GUEST_ORDER_LINK_TTL_DAYS');
+    const days = Number(value);
+    return value && !isNaN(days) && days > 0 ? days : this.DEFAULT_LINK_TTL_DAYS;
+  }
+}
@@ -0,0 +1,169 @@
+import { Injectable, BadRequestException, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Order } from './entities/order.entity';
+import { OrdersService } from './orders.service';
+import { PackingSlipPdfService } from './packing-slip-pdf.service';
+import { OrderShipmentsService } from './order-shipments.service';
+import { ShippingCarriersService } from './shipping-carriers.service';
+import { ShipmentCarrier } from './entities/shipment.entity';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { BulkUpdateStatusDto } from './dto/bulk-orders.dto';
+import { OrderActor } from './interfaces/order-actor.interface';
+
+export interface BulkOrderResult {
+  orderId?: string;
+  orderNumber?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkOperationResult {
+  succeeded: number;
+  failed: number;
+  results: BulkOrderResult[];
+}
+
+/**
+ * Batch operations for the admin order list. Orders are processed one by one,
+ * so a failing order is reported without holding up the rest.
+ */
+@Injectable()
+export class OrderBulkService {
+  constructor(
+    @InjectRepository(Order)
+    private ordersRepository: Repository<Order>,
+    private ordersService: OrdersService,
+    private packingSlipPdfService: PackingSlipPdfService,
+    private orderShipmentsService: OrderShipmentsService,
+    private shippingCarriersService: ShippingCarriersService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  async updateStatus(dto: BulkUpdateStatusDto, actor: OrderActor): Promise<BulkOperationResult> {
+    const orders = await this.ordersRepository.find({
+      where: { id: In(dto.orderIds) },
+      select: ['id', 'orderNumber'],
+    });
+    const numbers = new Map(orders.map((order) => [order.id, order.orderNumber]));
+
+    const results: BulkOrderResult[] = [];
+    for (const orderId of dto.orderIds) {
+      results.push(
+        await this.run({ orderId, orderNumber: numbers.get(orderId) }, () =>
+          this.ordersService.updateStatus(orderId, { status: dto.status, reason: dto.reason }, actor),
+        ),
+      );
+    }
+
+    return this.summarize(results);
+  }
+
+  /**
+   * Add shipments from a CSV of "order number, tracking number, carrier" rows
+   * (comma or semicolon separated, header row optional). Without a carrier the
+   * shipment is recorded under "other". Each parcel holds whatever of the order
+   * has not been shipped yet.
+   */
+  async importTracking(csv: string, markShipped: boolean, actor: OrderActor): Promise<BulkOperationResult> {
+    const rows = this.parseTrackingCsv(csv);
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no order number / tracking number rows');
+    }
+
+    const results: BulkOrderResult[] = [];
+    for (const { orderNumber, trackingNumber, carrierName } of rows) {
+      if (!trackingNumber) {
+        results.push({ orderNumber, success: false, error: 'Tracking number is missing' });
+        continue;
+      }
+
+      const carrier = carrierName ? this.shippingCarriersService.findCarrier(carrierName) : ShipmentCarrier.OTHER;
+      if (!carrier) {
+        results.push({ orderNumber, success: false, error: `Unknown carrier "${carrierName}"` });
+        continue;
+      }
+
+      const order = await this.ordersRepository.findOne({ where: { orderNumber } });
+      if (!order) {
+        results.push({ orderNumber, success: false, error: 'Order not found' });
+        continue;
+      }
+
+      results.push(
+        await this.run({ orderId: order.id, orderNumber }, () =>
+          this.orderShipmentsService.create(order.id, { carrier, trackingNumber, markShipped }, actor),
+        ),
+      );
+    }
+
+    return this.summarize(results);
+  }
+
+  async packingSlips(orderIds: string[]): Promise<Buffer> {
+    const orders = await this.findOrdersForPrinting(orderIds);
+    return this.packingSlipPdfService.render(orders, await this.getSellerName());
+  }
+
+  async pickList(orderIds: string[]): Promise<Buffer> {
+    const orders = await this.findOrdersForPrinting(orderIds);
+    return this.packingSlipPdfService.renderPickList(orders, await this.getSellerName());
+  }
+
+  private async findOrdersForPrinting(orderIds: string[]): Promise<Order[]> {
+    const orders = await this.ordersRepository.find({
+      where: { id: In(orderIds) },
+      relations: ['items', 'items.variant'],
+    });
+    if (orders.length === 0) {
+      throw new BadRequestException('None of the selected orders were found');
+    }
+
+    // Keep the order the admin selected them in
+    orders.sort((a, b) => orderIds.indexOf(a.id) - orderIds.indexOf(b.id));
+    return orders;
+  }
+
+  private async getSellerName(): Promise<string | undefined> {
+    return (await this.configurationService.get('SELLER_NAME')) ?? this.configService.get<string>('SELLER_NAME');
+  }
+
+  private async run(
+    target: { orderId?: string; orderNumber?: string },
+    action: () => Promise<unknown>,
+  ): Promise<BulkOrderResult> {
+    try {
+      await action();
+      return { ...target, success: true };
+    } catch (error) {
+      const message = error instanceof HttpException ? error.message : 'Unexpected error';
+      return { ...target, success: false, error: message };
+    }
+  }
+
+  private summarize(results: BulkOrderResult[]): BulkOperationResult {
+    const succeeded = results.filter((r) => r.success).length;
+    return { succeeded, failed: results.length - succeeded, results };
+  }
+
+  private parseTrackingCsv(csv: string): Array<{ orderNumber: string; trackingNumber: string; carrierName: string }> {
+    const rows = csv
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .map((line) => line.split(/[;,\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')))
+      .filter((cells) => cells.some(Boolean));
+
+    // Skip a header row such as "orderNumber,trackingNumber,carrier"
+    if (rows.length && /order|naro/i.test(rows[0][0]) && /track|sled/i.test(rows[0][1] ?? '')) {
+      rows.shift();
+    }
+
+    return rows.map(([orderNumber, trackingNumber, carrierName]) => ({
+      orderNumber: orderNumber.replace(/^#/, ''),
+      trackingNumber: trackingNumber ?? '',
+      carrierName: carrierName ?? '',
+    }));
+  }
+}
@@ -0,0 +1,141 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { OrderEdit } from './entities/order-edit.entity';
+import { OrderEditsService } from './order-edits.service';
+import { OrdersService } from './orders.service';
+import { Product } from '../products/entities/product.entity';
+import { ProductsService } from '../products/products.service';
+import { PaymentsService } from '../payments/payments.service';
+
+describe('OrderEditsService', () => {
+  let service: OrderEditsService;
+  let order: Order;
+  let mug: Product;
+  let manager: { getRepository: jest.Mock };
+  let orders: { createQueryBuilder: jest.Mock; findOne: jest.Mock; update: jest.Mock };
+  let items: { save: jest.Mock; remove: jest.Mock };
+  let edits: { create: jest.Mock; save: jest.Mock };
+  let ordersService: { findOne: jest.Mock; restockItems: jest.Mock };
+  let productsService: {
+    findOne: jest.Mock;
+    findForUpdate: jest.Mock;
+    applyAvailability: jest.Mock;
+    assertInStock: jest.Mock;
+    decrementStock: jest.Mock;
+  };
+  const actor = { id: 'admin-1', firstName: 'Ana' };
+
+  beforeEach(async () => {
+    mug = Object.assign(new Product(), { id: 'p1', name: 'Mug', price: 10, stock: 5, trackInventory: true, variants: [] });
+    order = {
+      id: 'order-1',
+      status: OrderStatus.PROCESSING,
+      subtotal: 20,
+      tax: 4.4,
+      shippingCost: 0,
+      codFee: 0,
+      discount: 0,
+      total: 24.4,
+      items: [
+        { id: 'item-1', productId: 'p1', productName: 'Mug', quantity: 1, unitPrice: 10, total: 10 },
+        { id: 'item-2', productId: 'p2', productName: 'Tea', quantity: 2, unitPrice: 5, total: 10 },
+      ] as OrderItem[],
+    } as Order;
+
+    orders = {
+      createQueryBuilder: jest.fn(() => {
+        const builder: Record<string, jest.Mock> = {};
+        builder.setLock = jest.fn(() => builder);
+        builder.where = jest.fn(() => builder);
+        builder.getOne = jest.fn(async () => ({ id: order.id }));
+        return builder;
+      }),
+      findOne: jest.fn(async () => order),
+      update: jest.fn(),
+    };
+    items = { save: jest.fn(async (item) => ({ id: 'item-new', ...item })), remove: jest.fn() };
+    edits = { create: jest.fn((values) => values), save: jest.fn() };
+    manager = {
+      getRepository: jest.fn((entity) => {
+        if (entity === Order) {
+          return orders;
+        }
+        return entity === OrderItem ? items : edits;
+      }),
+    };
+    ordersService = { findOne: jest.fn(async () => order), restockItems: jest.fn() };
+    productsService = {
+      findOne: jest.fn(async () => mug),
+      findForUpdate: jest.fn(async () => [mug]),
+      applyAvailability: jest.fn(),
+      assertInStock: jest.fn(),
+      decrementStock: jest.fn(),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OrderEditsService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: { manager: { transaction: jest.fn((work) => work(manager)) } },
+        },
+        { provide: getRepositoryToken(OrderItem), useValue: { create: jest.fn((values) => values) } },
+        { provide: getRepositoryToken(OrderEdit), useValue: {} },
+        { provide: OrdersService, useValue: ordersService },
+        { provide: ProductsService, useValue: productsService },
+        { provide: PaymentsService, useValue: { getRefundedQuantities: jest.fn(async () => new Map()) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(OrderEditsService);
+  });
+
+  describe('addItem', () => {
+    it('checks the stock of the locked product and writes everything in the transaction', async () => {
+      await service.addItem(order.id, { productId: 'p1', quantity: 2 }, actor);
+
+      expect(productsService.findForUpdate).toHaveBeenCalledWith(['p1'], manager);
+      expect(productsService.assertInStock).toHaveBeenCalledWith(mug, 2, undefined);
+      expect(items.save).toHaveBeenCalledWith(expect.objectContaining({ id: 'item-1', quantity: 3, total: 30 }));
+      expect(productsService.decrementStock).toHaveBeenCalledWith('p1', 2, undefined, manager);
+      expect(orders.update).toHaveBeenCalledWith(order.id, expect.objectContaining({ subtotal: 40, total: 48.8 }));
+      expect(edits.save).toHaveBeenCalledWith(expect.objectContaining({ previousTotal: 24.4, newTotal: 48.8 }));
+    });
+
+    it('changes nothing when the stock has run out meanwhile', async () => {
+      productsService.assertInStock.mockImplementation(() => {
+        throw new BadRequestException('Insufficient stock for Mug: 0 available, 2 requested');
+      });
+
+      await expect(service.addItem(order.id, { productId: 'p1', quantity: 2 }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(items.save).not.toHaveBeenCalled();
+      expect(productsService.decrementStock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateItemQuantity', () => {
+    it('puts a lowered quantity back into stock within the transaction', async () => {
+      await service.updateItemQuantity(order.id, 'item-2', { quantity: 1 }, actor);
+
+      expect(ordersService.restockItems).toHaveBeenCalledWith([{ item: order.items[1], quantity: 1 }], manager);
+      expect(productsService.findForUpdate).not.toHaveBeenCalled();
+      expect(orders.update).toHaveBeenCalledWith(order.id, expect.objectContaining({ subtotal: 15 }));
+    });
+  });
+
+  describe('removeItem', () => {
+    it('refuses to remove the last item', async () => {
+      order.items = order.items.slice(0, 1);
+
+      await expect(service.removeItem(order.id, 'item-1', actor)).rejects.toThrow(
+        'Cannot remove the last item - cancel the order instead',
+      );
+      expect(ordersService.restockItems).not.toHaveBeenCalled();
+    });
+  });
+});
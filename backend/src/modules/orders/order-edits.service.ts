@@ -0,0 +1,344 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Order, OrderStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { OrderEdit, OrderEditAction } from './entities/order-edit.entity';
+import { OrdersService } from './orders.service';
+import { ProductsService } from '../products/products.service';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { PaymentsService } from '../payments/payments.service';
+import { AddOrderItemDto, UpdateOrderItemDto } from './dto/edit-order-item.dto';
+import { UpdateOrderAddressesDto } from './dto/update-order-addresses.dto';
+import { OrderActor, getActorName } from './interfaces/order-actor.interface';
+
+/**
+ * Admin changes to existing orders: items, quantities and addresses.
+ * Every change recalculates the totals, adjusts stock and is written to the edit log,
+ * all in one transaction that holds the order and the products it touches.
+ */
+@Injectable()
+export class OrderEditsService {
+  constructor(
+    @InjectRepository(Order)
+    private ordersRepository: Repository<Order>,
+    @InjectRepository(OrderItem)
+    private orderItemsRepository: Repository<OrderItem>,
+    @InjectRepository(OrderEdit)
+    private orderEditsRepository: Repository<OrderEdit>,
+    private ordersService: OrdersService,
+    private productsService: ProductsService,
+    @Inject(forwardRef(() => PaymentsService))
+    private paymentsService: PaymentsService,
+  ) { }
+
+  // Once the parcel has left, changes go through returns instead
+  private readonly EDITABLE_STATUSES = [OrderStatus.PENDING, OrderStatus.PAID, OrderStatus.PROCESSING];
+
+  // Used when the order has no subtotal to derive its VAT rate from
+  private readonly DEFAULT_TAX_RATE = 0.22;
+
+  async getEdits(orderId: string): Promise<OrderEdit[]> {
+    return this.orderEditsRepository.find({
+      where: { orderId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async addItem(orderId: string, dto: AddOrderItemDto, actor: OrderActor): Promise<Order> {
+    const product = await this.productsService.findOne(dto.productId);
+
+    if (!product.isOrderable) {
+      throw new BadRequestException(`${product.name} cannot be ordered`);
+    }
+    const price = product.currentPrice!;
+
+    const variant = dto.variantId ? product.variants?.find((v) => v.id === dto.variantId) : undefined;
+    if (dto.variantId && !variant) {
+      throw new NotFoundException('Product variant not found');
+    }
+
+    await this.ordersRepository.manager.transaction(async (manager) => {
+      const order = await this.getEditableOrder(orderId, manager);
+      const stock = await this.lockStock(product.id, dto.quantity, variant?.id, manager);
+
+      // Same product and variant already on the order - raise the quantity instead of adding a line
+      let item = order.items.find(
+        (i) => i.productId === product.id && (i.variantId ?? null) === (dto.variantId ?? null),
+      );
+      const before = item ? { quantity: item.quantity } : null;
+
+      if (item) {
+        item.quantity += dto.quantity;
+        item.total = Number(item.unitPrice) * item.quantity;
+      } else {
+        const primaryImage = product.images?.find((img) => img.isPrimary) || product.images?.[0];
+        item = this.orderItemsRepository.create({
+          orderId: order.id,
+          productId: product.id,
+          variantId: variant?.id,
+          productName: product.name,
+          productSku: product.sku,
+          variantName: variant?.name,
+          variantAttributes: variant?.attributes,
+          quantity: dto.quantity,
+          unitPrice: price,
+          total: price * dto.quantity,
+          imageUrl: primaryImage?.url,
+        });
+        order.items.push(item);
+      }
+
+      await manager.getRepository(OrderItem).save(item);
+
+      if (stock.product.trackInventory) {
+        await this.productsService.decrementStock(product.id, dto.quantity, variant?.id, manager);
+      }
+
+      await this.saveAndRecord(
+        order,
+        before ? OrderEditAction.ITEM_QUANTITY_CHANGED : OrderEditAction.ITEM_ADDED,
+        {
+          orderItemId: item.id,
+          productName: this.describeItem(item),
+          before,
+          after: { quantity: item.quantity, unitPrice: Number(item.unitPrice) },
+        },
+        actor,
+        dto.reason,
+        manager,
+      );
+    });
+
+    return this.ordersService.findOne(orderId);
+  }
+
+  async updateItemQuantity(
+    orderId: string,
+    itemId: string,
+    dto: UpdateOrderItemDto,
+    actor: OrderActor,
+  ): Promise<Order> {
+    await this.ordersRepository.manager.transaction(async (manager) => {
+      const order = await this.getEditableOrder(orderId, manager);
+      const item = this.findItem(order, itemId);
+      const delta = dto.quantity - item.quantity;
+
+      if (delta === 0) {
+        return;
+      }
+
+      const refunded = (await this.paymentsService.getRefundedQuantities(order.id)).get(item.id) ?? 0;
+      if (dto.quantity < refunded) {
+        throw new BadRequestException(
+          `${refunded} x ${item.productName} have already been refunded; the quantity cannot go below that`,
+        );
+      }
+
+      if (delta > 0 && item.productId) {
+        const { product, variant } = await this.lockStock(item.productId, delta, item.variantId, manager);
+        if (product.trackInventory) {
+          await this.productsService.decrementStock(product.id, delta, variant?.id, manager);
+        }
+      } else if (delta < 0) {
+        await this.ordersService.restockItems([{ item, quantity: -delta }], manager);
+      }
+
+      const before = { quantity: item.quantity };
+      item.quantity = dto.quantity;
+      item.total = Number(item.unitPrice) * item.quantity;
+      await manager.getRepository(OrderItem).save(item);
+
+      await this.saveAndRecord(
+        order,
+        OrderEditAction.ITEM_QUANTITY_CHANGED,
+        { orderItemId: item.id, productName: this.describeItem(item), before, after: { quantity: item.quantity } },
+        actor,
+        dto.reason,
+        manager,
+      );
+    });
+
+    return this.ordersService.findOne(orderId);
+  }
+
+  async removeItem(orderId: string, itemId: string, actor: OrderActor, reason?: string): Promise<Order> {
+    await this.ordersRepository.manager.transaction(async (manager) => {
+      const order = await this.getEditableOrder(orderId, manager);
+      const item = this.findItem(order, itemId);
+
+      if (order.items.length === 1) {
+        throw new BadRequestException('Cannot remove the last item - cancel the order instead');
+      }
+
+      if ((await this.paymentsService.getRefundedQuantities(order.id)).get(item.id)) {
+        throw new BadRequestException(`${item.productName} has already been (partially) refunded and cannot be removed`);
+      }
+
+      await this.ordersService.restockItems([{ item, quantity: item.quantity }], manager);
+      await manager.getRepository(OrderItem).remove(item);
+      order.items = order.items.filter((i) => i !== item);
+
+      await this.saveAndRecord(
+        order,
+        OrderEditAction.ITEM_REMOVED,
+        {
+          orderItemId: itemId,
+          productName: this.describeItem(item),
+          before: { quantity: item.quantity, unitPrice: Number(item.unitPrice) },
+          after: null,
+        },
+        actor,
+        reason,
+        manager,
+      );
+    });
+
+    return this.ordersService.findOne(orderId);
+  }
+
+  async updateAddresses(orderId: string, dto: UpdateOrderAddressesDto, actor: OrderActor): Promise<Order> {
+    if (!dto.shippingAddress && !dto.billingAddress) {
+      throw new BadRequestException('Provide a shipping or billing address to update');
+    }
+
+    await this.ordersRepository.manager.transaction(async (manager) => {
+      const order = await this.getEditableOrder(orderId, manager);
+      const before: Record<string, unknown> = {};
+      const after: Record<string, unknown> = {};
+
+      if (dto.shippingAddress) {
+        before.shippingAddress = order.shippingAddress;
+        after.shippingAddress = dto.shippingAddress;
+        order.shippingAddress = { ...dto.shippingAddress };
+      }
+      if (dto.billingAddress) {
+        before.billingAddress = order.billingAddress;
+        after.billingAddress = dto.billingAddress;
+        order.billingAddress = { ...dto.billingAddress };
+      }
+
+      await this.saveAndRecord(order, OrderEditAction.ADDRESS_CHANGED, { before, after }, actor, dto.reason, manager);
+    });
+
+    return this.ordersService.findOne(orderId);
+  }
+
+  /**
+   * Load the order with its items, locked until the transaction ends, so that edits
+   * of the same order are applied one after the other.
+   */
+  private async getEditableOrder(orderId: string, manager: EntityManager): Promise<Order> {
+    const ordersRepository = manager.getRepository(Order);
+    const locked = await ordersRepository
+      .createQueryBuilder('order')
+      .setLock('pessimistic_write')
+      .where('order.id = :orderId', { orderId })
+      .getOne();
+    const order = locked
+      ? await ordersRepository.findOne({ where: { id: orderId }, relations: ['items', 'items.product'] })
+      : null;
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (!this.EDITABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`An order with status "${order.status}" can no longer be edited`);
+    }
+
+    return order;
+  }
+
+  private findItem(order: Order, itemId: string): OrderItem {
+    const item = order.items.find((i) => i.id === itemId);
+    if (!item) {
+      throw new NotFoundException('Order item not found');
+    }
+    return item;
+  }
+
+  /**
+   * Lock the product until the transaction ends and check that it, or the variant,
+   * can cover the quantity next to what checkouts are holding.
+   */
+  private async lockStock(
+    productId: string,
+    quantity: number,
+    variantId: string | null | undefined,
+    manager: EntityManager,
+  ): Promise<{ product: Product; variant?: ProductVariant }> {
+    const [product] = await this.productsService.findForUpdate([productId], manager);
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    await this.productsService.applyAvailability([product], undefined, [], manager);
+
+    const variant = variantId ? product.variants.find((v) => v.id === variantId) : undefined;
+    this.productsService.assertInStock(product, quantity, variant);
+    return { product, variant };
+  }
+
+  private describeItem(item: OrderItem): string {
+    return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+  }
+
+  /**
+   * Recalculate the totals at the order's existing VAT rate, save the order and log the edit.
+   * Pass a manager to make it part of the caller's transaction.
+   */
+  private async saveAndRecord(
+    order: Order,
+    action: OrderEditAction,
+    changes: Record<string, unknown>,
+    actor: OrderActor,
+    reason?: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const ordersRepository = manager ? manager.getRepository(Order) : this.ordersRepository;
+    const orderEditsRepository = manager ? manager.getRepository(OrderEdit) : this.orderEditsRepository;
+    const previousTotal = Number(order.total);
+    const taxRate = Number(order.subtotal) > 0 ? Number(order.tax) / Number(order.subtotal) : this.DEFAULT_TAX_RATE;
+
+    const subtotal = this.round(order.items.reduce((sum, item) => sum + Number(item.total), 0));
+    const tax = this.round(subtotal * taxRate);
+
+    order.subtotal = subtotal;
+    order.tax = tax;
+    order.total = this.round(
+      subtotal + tax + Number(order.shippingCost) + Number(order.codFee) - Number(order.discount),
+    );
+
+    // Update only the columns an edit changes; items were saved or removed individually
+    await ordersRepository.update(order.id, {
+      subtotal: order.subtotal,
+      tax: order.tax,
+      total: order.total,
+      shippingAddress: order.shippingAddress,
+      billingAddress: order.billingAddress,
+    });
+
+    await orderEditsRepository.save(
+      orderEditsRepository.create({
+        orderId: order.id,
+        action,
+        changes,
+        previousTotal,
+        newTotal: order.total,
+        reason,
+        editedById: actor.id,
+        editedByName: getActorName(actor),
+      }),
+    );
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
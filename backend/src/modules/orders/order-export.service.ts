@@ -0,0 +1,226 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as ExcelJS from 'exceljs';
+import { Order } from './entities/order.entity';
+import { ExportOrdersDto } from './dto/export-orders.dto';
+
+type Cell = string | number | Date | null;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  // Number format applied in XLSX; CSV writes money with a decimal comma
+  kind?: 'money' | 'date' | 'percent';
+}
+
+export interface OrderExportFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const ORDER_COLUMNS: ExportColumn[] = [
+  { header: 'Številka naročila', width: 16 },
+  { header: 'Datum naročila', width: 12, kind: 'date' },
+  { header: 'Datum plačila', width: 12, kind: 'date' },
+  { header: 'Status', width: 12 },
+  { header: 'Status plačila', width: 16 },
+  { header: 'Način plačila', width: 14 },
+  { header: 'Kupec', width: 24 },
+  { header: 'E-pošta', width: 28 },
+  { header: 'Država', width: 8 },
+  { header: 'Neto', width: 12, kind: 'money' },
+  { header: 'Stopnja DDV', width: 10, kind: 'percent' },
+  { header: 'DDV', width: 12, kind: 'money' },
+  { header: 'Bruto', width: 12, kind: 'money' },
+  { header: 'Poštnina', width: 12, kind: 'money' },
+  { header: 'Strošek povzetja', width: 12, kind: 'money' },
+  { header: 'Popust', width: 12, kind: 'money' },
+  { header: 'Skupaj', width: 12, kind: 'money' },
+];
+
+const ITEM_COLUMNS: ExportColumn[] = [
+  ...ORDER_COLUMNS.slice(0, 9),
+  { header: 'Šifra', width: 16 },
+  { header: 'Artikel', width: 36 },
+  { header: 'Količina', width: 9 },
+  { header: 'Cena na enoto', width: 12, kind: 'money' },
+  ...ORDER_COLUMNS.slice(9, 13),
+];
+
+/**
+ * Order data for the bookkeeper: one row per order or per line item, as CSV or XLSX.
+ */
+@Injectable()
+export class OrderExportService {
+  constructor(
+    @InjectRepository(Order)
+    private ordersRepository: Repository<Order>,
+  ) { }
+
+  async export(query: ExportOrdersDto): Promise<OrderExportFile> {
+    const orders = await this.findOrders(query);
+    const perItem = query.rows === 'item';
+    const columns = perItem ? ITEM_COLUMNS : ORDER_COLUMNS;
+    const rows = perItem ? orders.flatMap((order) => this.itemRows(order)) : orders.map((order) => this.orderRow(order));
+
+    const period = [query.dateFrom, query.dateTo].filter(Boolean).join('_') || new Date().toISOString().split('T')[0];
+    const basename = `orders-${perItem ? 'items-' : ''}${period}`;
+
+    if (query.format === 'xlsx') {
+      return {
+        content: await this.toXlsx(columns, rows),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        filename: `${basename}.xlsx`,
+      };
+    }
+
+    return {
+      // BOM so Excel opens the file as UTF-8
+      content: Buffer.from('\uFEFF' + this.toCsv(columns, rows), 'utf-8'),
+      contentType: 'text/csv; charset=utf-8',
+      filename: `${basename}.csv`,
+    };
+  }
+
+  private findOrders(query: ExportOrdersDto): Promise<Order[]> {
+    const dateField = query.dateField === 'paidAt' ? 'paidAt' : 'createdAt';
+    const queryBuilder = this.ordersRepository
+      .createQueryBuilder('order')
+      .leftJoinAndSelect('order.items', 'items')
+      .leftJoinAndSelect('order.user', 'user')
+      .orderBy(`order.${dateField}`, 'ASC')
+      .addOrderBy('order.orderNumber', 'ASC');
+
+    if (query.dateFrom) {
+      queryBuilder.andWhere(`order.${dateField} >= CAST(:dateFrom AS date)`, { dateFrom: query.dateFrom });
+    }
+
+    if (query.dateTo) {
+      queryBuilder.andWhere(`order.${dateField} < CAST(:dateTo AS date) + 1`, { dateTo: query.dateTo });
+    }
+
+    if (query.status) {
+      queryBuilder.andWhere('order.status = :status', { status: query.status });
+    }
+
+    if (query.paymentStatus) {
+      queryBuilder.andWhere('order.paymentStatus = :paymentStatus', { paymentStatus: query.paymentStatus });
+    }
+
+    return queryBuilder.getMany();
+  }
+
+  private orderColumns(order: Order): Cell[] {
+    const address = order.billingAddress || order.shippingAddress;
+    const customer = order.user
+      ? `${order.user.firstName} ${order.user.lastName}`
+      : `${address?.firstName ?? ''} ${address?.lastName ?? ''}`.trim();
+
+    return [
+      order.orderNumber,
+      order.createdAt,
+      order.paidAt ?? null,
+      order.status,
+      order.paymentStatus,
+      order.paymentMethod || '',
+      customer,
+      order.user?.email || order.guestEmail || '',
+      address?.country || '',
+    ];
+  }
+
+  private orderRow(order: Order): Cell[] {
+    const net = Number(order.subtotal);
+    const tax = Number(order.tax);
+
+    return [
+      ...this.orderColumns(order),
+      net,
+      this.taxRate(order),
+      tax,
+      this.round(net + tax),
+      Number(order.shippingCost),
+      Number(order.codFee),
+      Number(order.discount),
+      Number(order.total),
+    ];
+  }
+
+  private itemRows(order: Order): Cell[][] {
+    const rate = this.taxRate(order);
+
+    return order.items.map((item) => {
+      const net = Number(item.total);
+      const tax = this.round(net * rate);
+      return [
+        ...this.orderColumns(order),
+        item.productSku || '',
+        item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+        item.quantity,
+        Number(item.unitPrice),
+        net,
+        rate,
+        tax,
+        this.round(net + tax),
+      ];
+    });
+  }
+
+  // Orders store net subtotal and VAT amount, so the rate is derived from them
+  private taxRate(order: Order): number {
+    const subtotal = Number(order.subtotal);
+    return subtotal > 0 ? Math.round((Number(order.tax) / subtotal) * 10000) / 10000 : 0;
+  }
+
+  private toCsv(columns: ExportColumn[], rows: Cell[][]): string {
+    const format = (value: Cell, column: ExportColumn): string => {
+      if (value === null) return '';
+      if (value instanceof Date) return this.formatDate(value);
+      if (typeof value === 'number') {
+        const number = column.kind === 'percent' ? this.round(value * 100) : value;
+        return column.kind === 'money' ? number.toFixed(2).replace('.', ',') : String(number).replace('.', ',');
+      }
+      return value;
+    };
+
+    // Semicolons, since the amounts use a decimal comma
+    return [columns.map((column) => column.header), ...rows.map((row) => row.map((cell, i) => format(cell, columns[i])))]
+      .map((row) =>
+        row
+          .map((cell) => {
+            const escaped = cell.replace(/"/g, '""');
+            return /[;"\n]/.test(escaped) ? `"${escaped}"` : escaped;
+          })
+          .join(';'),
+      )
+      .join('\n');
+  }
+
+  private async toXlsx(columns: ExportColumn[], rows: Cell[][]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Naročila', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+      style: {
+        numFmt: column.kind === 'money' ? '#,##0.00' : column.kind === 'date' ? 'dd.mm.yyyy' : column.kind === 'percent' ? '0%' : undefined,
+      },
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(rows);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private formatDate(date: Date): string {
+    const d = new Date(date);
+    return `${String(d.getDate()).padStart(2, '0')}.${String(d.getMonth() + 1).padStart(2, '0')}.${d.getFullYear()}`;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Order } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { CartService } from '../cart/cart.service';
+import { Cart } from '../cart/entities/cart.entity';
+import { ProductsService } from '../products/products.service';
+import { Product, ProductStatus } from '../products/entities/product.entity';
+
+export type ReorderSkipReason = 'unavailable' | 'out_of_stock' | 'insufficient_stock';
+
+export interface ReorderLine {
+  orderItemId: string;
+  productName: string;
+  variantName?: string;
+  quantity: number;
+}
+
+export interface ReorderResult {
+  cart: Cart;
+  added: ReorderLine[];
+  skipped: (ReorderLine & { reason: ReorderSkipReason })[];
+  // Added to the cart at today's price, listed so the customer is not surprised at checkout
+  priceChanged: (ReorderLine & { previousPrice: number; currentPrice: number })[];
+}
+
+/**
+ * "Buy again": copies the lines of a past order into the customer's current cart.
+ */
+@Injectable()
+export class OrderReorderService {
+  constructor(
+    @InjectRepository(Order)
+    private ordersRepository: Repository<Order>,
+    private cartService: CartService,
+    private productsService: ProductsService,
+  ) { }
+
+  async reorder(orderId: string, userId: string): Promise<ReorderResult> {
+    const order = await this.ordersRepository.findOne({
+      where: { id: orderId },
+      relations: ['items'],
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.userId !== userId) {
+      throw new ForbiddenException('You do not have permission to reorder this order');
+    }
+
+    const result: Omit<ReorderResult, 'cart'> = { added: [], skipped: [], priceChanged: [] };
+
+    for (const item of order.items) {
+      const line: ReorderLine = {
+        orderItemId: item.id,
+        productName: item.productName,
+        variantName: item.variantName || undefined,
+        quantity: item.quantity,
+      };
+
+      const product = await this.findProduct(item);
+      const skipReason = this.getSkipReason(item, product);
+      if (!product || skipReason) {
+        result.skipped.push({ ...line, reason: skipReason ?? 'unavailable' });
+        continue;
+      }
+
+      try {
+        await this.cartService.addItem(userId, undefined, {
+          productId: product.id,
+          variantId: item.variantId || undefined,
+          quantity: item.quantity,
+        });
+      } catch (error) {
+        // In stock, but not as many as last time once the cart's other lines are counted
+        if (error instanceof BadRequestException) {
+          result.skipped.push({ ...line, reason: 'insufficient_stock' });
+          continue;
+        }
+        throw error;
+      }
+      result.added.push(line);
+
+      const currentPrice = Number(product.currentPrice);
+      if (Math.abs(currentPrice - Number(item.unitPrice)) >= 0.01) {
+        result.priceChanged.push({ ...line, previousPrice: Number(item.unitPrice), currentPrice });
+      }
+    }
+
+    const cart = await this.cartService.getCart(userId);
+    return { cart, ...result };
+  }
+
+  private async findProduct(item: OrderItem): Promise<Product | null> {
+    // Deleted products leave the order line without a productId
+    if (!item.productId) {
+      return null;
+    }
+    try {
+      return await this.productsService.findOne(item.productId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private getSkipReason(item: OrderItem, product: Product | null): ReorderSkipReason | null {
+    if (!product || product.status !== ProductStatus.PUBLISHED || product.currentPrice === null) {
+      return 'unavailable';
+    }
+    if (item.variantId) {
+      const variant = product.variants?.find((v) => v.id === item.variantId);
+      if (!variant || !variant.isActive) {
+        return 'unavailable';
+      }
+    }
+    if (!product.isOrderable) {
+      return 'out_of_stock';
+    }
+    return null;
+  }
+}
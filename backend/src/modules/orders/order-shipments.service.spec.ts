@@ -0,0 +1,189 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Order, OrderStatus, PaymentStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+import { Shipment, ShipmentCarrier, ShipmentStatus } from './entities/shipment.entity';
+import { OrderShipmentsService } from './order-shipments.service';
+import { OrdersService } from './orders.service';
+import { PaymentTransactionsService } from '../payments/payment-transactions.service';
+
+describe('OrderShipmentsService', () => {
+  let service: OrderShipmentsService;
+  let order: Order;
+  let ordersService: { findOne: jest.Mock; transitionStatus: jest.Mock };
+  let shipments: { create: jest.Mock; save: jest.Mock };
+  let shipmentsRepository: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    save: jest.Mock;
+    merge: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+
+  function parcel(id: string, status: ShipmentStatus, items: Array<[string, number]>): Shipment {
+    return {
+      id,
+      orderId: order.id,
+      status,
+      codAmount: null,
+      items: items.map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+    } as Shipment;
+  }
+
+  beforeEach(async () => {
+    order = {
+      id: 'order-1',
+      status: OrderStatus.PROCESSING,
+      paymentStatus: PaymentStatus.PAID,
+      paymentMethod: 'card',
+      total: 30,
+      items: [
+        { id: 'mug', productName: 'Mug', quantity: 2 },
+        { id: 'tea', productName: 'Tea', quantity: 1 },
+      ] as OrderItem[],
+      shipments: [] as Shipment[],
+    } as Order;
+
+    ordersService = {
+      findOne: jest.fn(async () => order),
+      transitionStatus: jest.fn(async (target: Order) => target),
+    };
+    shipments = {
+      create: jest.fn((values) => values),
+      save: jest.fn(async (values) => ({ id: 'parcel-new', status: ShipmentStatus.SHIPPED, ...values })),
+    };
+    shipmentsRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      save: jest.fn(async (values) => values),
+      merge: jest.fn((target, values) => Object.assign(target, values)),
+      manager: { transaction: jest.fn((work) => work({ getRepository: () => shipments })) },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OrderShipmentsService,
+        { provide: getRepositoryToken(Shipment), useValue: shipmentsRepository },
+        { provide: OrdersService, useValue: ordersService },
+        { provide: PaymentTransactionsService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(OrderShipmentsService);
+  });
+
+  describe('create', () => {
+    const dto = { carrier: ShipmentCarrier.GLS, trackingNumber: ' 123456 ' };
+
+    it('marks the order partially shipped while items are still waiting', async () => {
+      await service.create(order.id, { ...dto, items: [{ orderItemId: 'mug', quantity: 2 }] });
+
+      expect(shipments.save).toHaveBeenCalledWith(
+        expect.objectContaining({ trackingNumber: '123456', items: [{ orderItemId: 'mug', quantity: 2 }] }),
+      );
+      expect(ordersService.transitionStatus).toHaveBeenCalledWith(
+        order,
+        { status: OrderStatus.PARTIALLY_SHIPPED },
+        undefined,
+        'Partially shipped with tracking number 123456',
+        expect.anything(),
+      );
+    });
+
+    it('ships the rest and marks the order shipped once everything has left', async () => {
+      order.status = OrderStatus.PARTIALLY_SHIPPED;
+      order.shipments = [parcel('parcel-1', ShipmentStatus.IN_TRANSIT, [['mug', 2]])];
+
+      await service.create(order.id, dto);
+
+      expect(shipments.save).toHaveBeenCalledWith(
+        expect.objectContaining({ items: [{ orderItemId: 'tea', quantity: 1 }] }),
+      );
+      expect(ordersService.transitionStatus).toHaveBeenCalledWith(
+        order,
+        { status: OrderStatus.SHIPPED },
+        undefined,
+        'Shipped with tracking number 123456',
+        expect.anything(),
+      );
+      // The new parcel stays attached when the order is saved
+      expect(order.shipments.map((shipment) => shipment.id)).toEqual(['parcel-1', 'parcel-new']);
+    });
+
+    it('lets the items of a returned parcel be sent again', async () => {
+      order.status = OrderStatus.SHIPPED;
+      order.shipments = [parcel('parcel-1', ShipmentStatus.RETURNED, [['mug', 2], ['tea', 1]])];
+
+      await service.create(order.id, { ...dto, items: [{ orderItemId: 'mug', quantity: 2 }] });
+
+      expect(shipments.save).toHaveBeenCalled();
+      expect(ordersService.transitionStatus).toHaveBeenCalledWith(
+        order,
+        { status: undefined },
+        undefined,
+        undefined,
+        expect.anything(),
+      );
+    });
+
+    it('does not send more than is left to ship', async () => {
+      order.shipments = [parcel('parcel-1', ShipmentStatus.SHIPPED, [['mug', 1]])];
+
+      await expect(
+        service.create(order.id, { ...dto, items: [{ orderItemId: 'mug', quantity: 2 }] }),
+      ).rejects.toThrow(new BadRequestException('Only 1 of Mug left to ship'));
+      expect(shipments.save).not.toHaveBeenCalled();
+    });
+
+    it('saves nothing for an order that cannot be shipped yet', async () => {
+      order.status = OrderStatus.PENDING;
+
+      await expect(service.create(order.id, { ...dto, markShipped: false })).rejects.toThrow(BadRequestException);
+      expect(shipmentsRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('marks the order delivered once every parcel has arrived', async () => {
+      order.status = OrderStatus.SHIPPED;
+      const last = parcel('parcel-2', ShipmentStatus.IN_TRANSIT, [['tea', 1]]);
+      shipmentsRepository.findOne.mockResolvedValue(last);
+      shipmentsRepository.find.mockResolvedValue([
+        parcel('parcel-1', ShipmentStatus.DELIVERED, [['mug', 2]]),
+        last,
+      ]);
+
+      await service.update(order.id, 'parcel-2', { status: ShipmentStatus.DELIVERED });
+
+      expect(last.deliveredAt).toBeInstanceOf(Date);
+      expect(ordersService.transitionStatus).toHaveBeenCalledWith(
+        order,
+        { status: OrderStatus.DELIVERED },
+        undefined,
+        'All shipments delivered',
+      );
+    });
+
+    it('waits for the parcels still on their way', async () => {
+      order.status = OrderStatus.SHIPPED;
+      const first = parcel('parcel-1', ShipmentStatus.IN_TRANSIT, [['mug', 2]]);
+      shipmentsRepository.findOne.mockResolvedValue(first);
+      shipmentsRepository.find.mockResolvedValue([first, parcel('parcel-2', ShipmentStatus.IN_TRANSIT, [['tea', 1]])]);
+
+      await service.update(order.id, 'parcel-1', { status: ShipmentStatus.DELIVERED });
+
+      expect(ordersService.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('keeps a partially shipped order open when its parcels arrive', async () => {
+      order.status = OrderStatus.PARTIALLY_SHIPPED;
+      shipmentsRepository.findOne.mockResolvedValue(parcel('parcel-1', ShipmentStatus.IN_TRANSIT, [['mug', 2]]));
+
+      await service.update(order.id, 'parcel-1', { status: ShipmentStatus.DELIVERED });
+
+      expect(shipmentsRepository.find).not.toHaveBeenCalled();
+      expect(ordersService.transitionStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from './entities/order.entity';
+import { Shipment, ShipmentStatus } from './entities/shipment.entity';
+import { OrdersService } from './orders.service';
+import { CreateShipmentDto, UpdateShipmentDto, ShipmentItemDto } from './dto/shipment.dto';
+import { OrderActor, getActorName } from './interfaces/order-actor.interface';
+import { assertOrderStatusTransition } from './order-status.transitions';
+import { PaymentTransactionsService } from '../payments/payment-transactions.service';
+import { PaymentTransactionType } from '../payments/entities/payment-transaction.entity';
+
+/**
+ * Parcels sent for an order, each holding part of the order items. The order follows
+ * its shipments: it is partially shipped while items are still waiting, shipped once
+ * everything has left and delivered once every parcel has arrived.
+ */
+@Injectable()
+export class OrderShipmentsService {
+  constructor(
+    @InjectRepository(Shipment)
+    private shipmentsRepository: Repository<Shipment>,
+    private ordersService: OrdersService,
+    @Inject(forwardRef(() => PaymentTransactionsService))
+    private paymentTransactionsService: PaymentTransactionsService,
+  ) { }
+
+  // Nothing can be sent for these
+  private readonly CLOSED_STATUSES = [OrderStatus.CANCELLED, OrderStatus.REFUNDED];
+
+  async create(orderId: string, dto: CreateShipmentDto, actor?: OrderActor): Promise<Order> {
+    const order = await this.ordersService.findOne(orderId);
+    if (this.CLOSED_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Cannot add a shipment to an order with status "${order.status}"`);
+    }
+
+    const shipped = this.getShippedQuantities(order);
+    const items = this.resolveItems(order, shipped, dto.items);
+
+    for (const item of items) {
+      shipped.set(item.orderItemId, (shipped.get(item.orderItemId) || 0) + item.quantity);
+    }
+    const complete = order.items.every((item) => (shipped.get(item.id) || 0) >= item.quantity);
+    const status = complete ? OrderStatus.SHIPPED : OrderStatus.PARTIALLY_SHIPPED;
+
+    // An order that has shipped stays shipped when items of a returned parcel go out again
+    const alreadyShipped = [OrderStatus.SHIPPED, OrderStatus.DELIVERED].includes(order.status);
+
+    // Nothing is saved for an order that cannot be shipped yet, e.g. one still waiting for payment
+    if (!alreadyShipped && status !== order.status) {
+      assertOrderStatusTransition(order.status, status);
+    }
+
+    const ship = (dto.markShipped ?? true) && !alreadyShipped && status !== order.status;
+    const trackingNumber = dto.trackingNumber.trim();
+
+    // Kept for older clients and exports that only know the single tracking number
+    order.trackingNumber = trackingNumber;
+
+    await this.shipmentsRepository.manager.transaction(async (manager) => {
+      const shipmentsRepository = manager.getRepository(Shipment);
+      const shipment = await shipmentsRepository.save(
+        shipmentsRepository.create({
+          orderId: order.id,
+          carrier: dto.carrier,
+          trackingNumber,
+          trackingUrl: dto.trackingUrl,
+          codAmount: this.getCodAmount(order),
+          items: items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+          createdById: actor?.id,
+          createdByName: getActorName(actor),
+        }),
+      );
+      // Saving the order with a shipments list that misses the new parcel would detach it
+      order.shipments = [...(order.shipments ?? []), shipment];
+
+      await this.ordersService.transitionStatus(
+        order,
+        { status: ship ? status : undefined },
+        actor,
+        ship ? `${complete ? 'Shipped' : 'Partially shipped'} with tracking number ${trackingNumber}` : undefined,
+        manager,
+      );
+    });
+
+    return this.ordersService.findOne(order.id);
+  }
+
+  async update(orderId: string, shipmentId: string, dto: UpdateShipmentDto, actor?: OrderActor): Promise<Order> {
+    const shipment = await this.shipmentsRepository.findOne({ where: { id: shipmentId, orderId } });
+    if (!shipment) {
+      throw new NotFoundException('Shipment not found');
+    }
+
+    const { status, ...details } = dto;
+    this.shipmentsRepository.merge(shipment, details);
+    if (status && status !== shipment.status) {
+      shipment.status = status;
+      shipment.deliveredAt = status === ShipmentStatus.DELIVERED ? new Date() : null;
+    }
+    await this.shipmentsRepository.save(shipment);
+
+    const order = await this.ordersService.findOne(orderId);
+    // The carrier handed over the parcel and took the cash for it
+    if (
+      status === ShipmentStatus.DELIVERED &&
+      shipment.codAmount !== null &&
+      order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY &&
+      order.paymentStatus === PaymentStatus.PENDING
+    ) {
+      order.amountPaid = Number(shipment.codAmount);
+      await this.paymentTransactionsService.record({
+        orderId: order.id,
+        type: PaymentTransactionType.CAPTURE,
+        provider: PaymentMethod.CASH_ON_DELIVERY,
+        amount: order.amountPaid,
+        providerReference: shipment.id,
+        providerStatus: shipment.status,
+        description: `Collected by ${shipment.carrier} with parcel ${shipment.trackingNumber}`,
+        actor,
+      });
+      await this.ordersService.transitionStatus(
+        order,
+        { paymentStatus: PaymentStatus.PAID },
+        actor,
+        'Cash collected on delivery',
+      );
+    }
+
+    // A partially shipped order still has parcels to come, however many have arrived
+    if (status === ShipmentStatus.DELIVERED && order.status === OrderStatus.SHIPPED) {
+      const parcels = await this.shipmentsRepository.find({ where: { orderId } });
+      const outstanding = parcels.filter(
+        (parcel) => parcel.status !== ShipmentStatus.DELIVERED && parcel.status !== ShipmentStatus.RETURNED,
+      );
+      if (outstanding.length === 0) {
+        await this.ordersService.transitionStatus(
+          order,
+          { status: OrderStatus.DELIVERED },
+          actor,
+          'All shipments delivered',
+        );
+      }
+    }
+
+    return this.ordersService.findOne(orderId);
+  }
+
+  /**
+   * Cash a new parcel collects. A COD order's total goes on its first parcel, and on the
+   * next one again if that parcel came back.
+   */
+  private getCodAmount(order: Order): number | null {
+    if (order.paymentMethod !== PaymentMethod.CASH_ON_DELIVERY || order.paymentStatus !== PaymentStatus.PENDING) {
+      return null;
+    }
+    const collecting = (order.shipments || []).some(
+      (shipment) => shipment.codAmount !== null && shipment.status !== ShipmentStatus.RETURNED,
+    );
+    return collecting ? null : Number(order.total);
+  }
+
+  /**
+   * Quantity per order item already on its way. Returned parcels do not count, so
+   * their items can be sent again.
+   */
+  private getShippedQuantities(order: Order): Map<string, number> {
+    const shipped = new Map<string, number>();
+    for (const shipment of order.shipments || []) {
+      if (shipment.status === ShipmentStatus.RETURNED) {
+        continue;
+      }
+      for (const item of shipment.items || []) {
+        shipped.set(item.orderItemId, (shipped.get(item.orderItemId) || 0) + item.quantity);
+      }
+    }
+    return shipped;
+  }
+
+  /**
+   * The lines of a new parcel. Without a selection the parcel holds everything not
+   * shipped yet.
+   */
+  private resolveItems(order: Order, shipped: Map<string, number>, requested?: ShipmentItemDto[]): ShipmentItemDto[] {
+    const remaining = new Map(order.items.map((item) => [item.id, item.quantity - (shipped.get(item.id) || 0)]));
+
+    const items = requested
+      ? requested
+      : order.items
+          .map((item) => ({ orderItemId: item.id, quantity: remaining.get(item.id) || 0 }))
+          .filter((item) => item.quantity > 0);
+    if (items.length === 0) {
+      throw new BadRequestException('Everything on this order has already been shipped');
+    }
+
+    const wanted = new Map<string, number>();
+    for (const item of items) {
+      wanted.set(item.orderItemId, (wanted.get(item.orderItemId) || 0) + item.quantity);
+    }
+    for (const [orderItemId, quantity] of wanted) {
+      const orderItem = order.items.find((item) => item.id === orderItemId);
+      if (!orderItem) {
+        throw new BadRequestException(`Order item ${orderItemId} not found`);
+      }
+      const left = remaining.get(orderItemId) || 0;
+      if (quantity > left) {
+        throw new BadRequestException(
+          left > 0
+            ? `Only ${left} of ${orderItem.productName} left to ship`
+            : `${orderItem.productName} has already been shipped`,
+        );
+      }
+    }
+    return items;
+  }
+}
@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus, PaymentStatus } from './entities/order.enums';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_STATUS_TRANSITIONS,
+  assertOrderStatusTransition,
+  assertPaymentStatusTransition,
+  canTransitionOrderStatus,
+  canTransitionPaymentStatus,
+} from './order-status.transitions';
+
+describe('order status transitions', () => {
+  it('has an entry for every order and payment status', () => {
+    expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual(Object.values(OrderStatus).sort());
+    expect(Object.keys(PAYMENT_STATUS_TRANSITIONS).sort()).toEqual(Object.values(PaymentStatus).sort());
+  });
+
+  it('follows an order from placing to delivery', () => {
+    expect(canTransitionOrderStatus(OrderStatus.PENDING, OrderStatus.PROCESSING)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.PROCESSING, OrderStatus.PARTIALLY_SHIPPED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.PARTIALLY_SHIPPED, OrderStatus.SHIPPED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(true);
+  });
+
+  it('does not ship an order that is still pending', () => {
+    expect(canTransitionOrderStatus(OrderStatus.PENDING, OrderStatus.SHIPPED)).toBe(false);
+    expect(canTransitionOrderStatus(OrderStatus.PENDING, OrderStatus.PARTIALLY_SHIPPED)).toBe(false);
+  });
+
+  it('only cancels orders that have not shipped', () => {
+    expect(canTransitionOrderStatus(OrderStatus.PROCESSING, OrderStatus.CANCELLED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.PARTIALLY_SHIPPED, OrderStatus.CANCELLED)).toBe(false);
+    expect(canTransitionOrderStatus(OrderStatus.SHIPPED, OrderStatus.CANCELLED)).toBe(false);
+  });
+
+  it('treats cancelled and refunded orders as final', () => {
+    for (const status of Object.values(OrderStatus)) {
+      expect(canTransitionOrderStatus(OrderStatus.CANCELLED, status)).toBe(false);
+      expect(canTransitionOrderStatus(OrderStatus.REFUNDED, status)).toBe(false);
+    }
+  });
+
+  it('lets a failed payment be retried but never leaves a refund', () => {
+    expect(canTransitionPaymentStatus(PaymentStatus.FAILED, PaymentStatus.PENDING)).toBe(true);
+    expect(canTransitionPaymentStatus(PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED)).toBe(true);
+    expect(canTransitionPaymentStatus(PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED)).toBe(true);
+    expect(canTransitionPaymentStatus(PaymentStatus.REFUNDED, PaymentStatus.PAID)).toBe(false);
+  });
+
+  it('does not refund a payment that was never marked paid', () => {
+    expect(canTransitionPaymentStatus(PaymentStatus.PENDING, PaymentStatus.REFUNDED)).toBe(false);
+  });
+
+  it('names the allowed statuses when a transition is rejected', () => {
+    expect(() => assertOrderStatusTransition(OrderStatus.SHIPPED, OrderStatus.PENDING)).toThrow(
+      new BadRequestException('Cannot change order status from "shipped" to "pending". Allowed: delivered, refunded'),
+    );
+    expect(() => assertPaymentStatusTransition(PaymentStatus.REFUNDED, PaymentStatus.PAID)).toThrow(
+      '"refunded" is a final status',
+    );
+  });
+
+  it('accepts allowed transitions silently', () => {
+    expect(() => assertOrderStatusTransition(OrderStatus.PAID, OrderStatus.SHIPPED)).not.toThrow();
+    expect(() => assertPaymentStatusTransition(PaymentStatus.PENDING, PaymentStatus.PAID)).not.toThrow();
+  });
+});
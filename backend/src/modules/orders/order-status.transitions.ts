@@ -0,0 +1,68 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus, PaymentStatus } from './entities/order.entity';
+
+/**
+ * Allowed order status transitions.
+ * CANCELLED and REFUNDED are terminal - an order never leaves them.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.PARTIALLY_SHIPPED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED,
+  ],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.PARTIALLY_SHIPPED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED,
+  ],
+  [OrderStatus.PARTIALLY_SHIPPED]: [OrderStatus.SHIPPED, OrderStatus.REFUNDED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+};
+
+/**
+ * Allowed payment status transitions.
+ * A failed payment may be retried, a refunded payment is final.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [PaymentStatus.PAID, PaymentStatus.FAILED],
+  [PaymentStatus.FAILED]: [PaymentStatus.PENDING, PaymentStatus.PAID],
+  [PaymentStatus.PAID]: [PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED],
+  [PaymentStatus.PARTIALLY_REFUNDED]: [PaymentStatus.REFUNDED],
+  [PaymentStatus.REFUNDED]: [],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertOrderStatusTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransitionOrderStatus(from, to)) {
+    const allowed = ORDER_STATUS_TRANSITIONS[from] ?? [];
+    throw new BadRequestException(
+      `Cannot change order status from "${from}" to "${to}". ` +
+        (allowed.length ? `Allowed: ${allowed.join(', ')}` : `"${from}" is a final status`),
+    );
+  }
+}
+
+export function assertPaymentStatusTransition(from: PaymentStatus, to: PaymentStatus): void {
+  if (!canTransitionPaymentStatus(from, to)) {
+    const allowed = PAYMENT_STATUS_TRANSITIONS[from] ?? [];
+    throw new BadRequestException(
+      `Cannot change payment status from "${from}" to "${to}". ` +
+        (allowed.length ? `Allowed: ${allowed.join(', ')}` : `"${from}" is a final status`),
+    );
+  }
+}
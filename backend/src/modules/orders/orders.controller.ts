@@ -4,16 +4,43 @@ import {
   Post,
   Body,
   Patch,
+  Delete,
   Param,
   Query,
   UseGuards,
   Request,
   Headers,
+  Res,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery, ApiHeader } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { Response } from 'express';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery, ApiHeader, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { OrderEditsService } from './order-edits.service';
+import { OrderBulkService } from './order-bulk.service';
+import { OrderExportService } from './order-export.service';
+import { OrderAccessService } from './order-access.service';
+import { OrderReorderService } from './order-reorder.service';
+import { OrderShipmentsService } from './order-shipments.service';
+import { ShippingCarriersService } from './shipping-carriers.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import { CreateOrderNoteDto } from './dto/create-order-note.dto';
+import { QueryOrdersDto } from './dto/query-orders.dto';
+import { ExportOrdersDto } from './dto/export-orders.dto';
+import { RequestOrderAccessDto } from './dto/request-order-access.dto';
+import { PaymentOrderAccessDto } from './dto/payment-order-access.dto';
+import { BulkOrderIdsDto, BulkUpdateStatusDto, BulkTrackingUploadDto } from './dto/bulk-orders.dto';
+import { AddOrderItemDto, UpdateOrderItemDto } from './dto/edit-order-item.dto';
+import { UpdateOrderAddressesDto } from './dto/update-order-addresses.dto';
+import { CreateShipmentDto, UpdateShipmentDto } from './dto/shipment.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -23,7 +50,16 @@ import { UserRole } from '../users/entities/user.entity';
 @ApiTags('orders')
 @Controller('orders')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderEditsService: OrderEditsService,
+    private readonly orderBulkService: OrderBulkService,
+    private readonly orderExportService: OrderExportService,
+    private readonly orderAccessService: OrderAccessService,
+    private readonly orderReorderService: OrderReorderService,
+    private readonly orderShipmentsService: OrderShipmentsService,
+    private readonly shippingCarriersService: ShippingCarriersService,
+  ) {}
 
   @Post()
   @UseGuards(OptionalAuthGuard)
@@ -42,14 +78,103 @@ export class OrdersController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get all orders (admin only)' })
-  @ApiQuery({ name: 'page', required: false, type: Number })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
-  findAll(
-    @Query('page') page?: number,
-    @Query('limit') limit?: number,
+  @ApiOperation({ summary: 'Get all orders with filters and sorting (admin only)' })
+  findAll(@Query() query: QueryOrdersDto) {
+    return this.ordersService.findAll(query);
+  }
+
+  @Get('export')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Export orders for accounting as CSV or XLSX, per order or per line item (admin only)' })
+  async export(@Query() query: ExportOrdersDto, @Res() res: Response) {
+    const file = await this.orderExportService.export(query);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${file.filename}`);
+    res.send(file.content);
+  }
+
+  @Post('bulk/status')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the status of several orders, reporting the result per order (admin only)' })
+  bulkUpdateStatus(@Request() req: any, @Body() bulkDto: BulkUpdateStatusDto) {
+    return this.orderBulkService.updateStatus(bulkDto, req.user);
+  }
+
+  @Post('bulk/tracking')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Import tracking numbers from a CSV of order number and tracking number (admin only)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        markShipped: { type: 'boolean' },
+      },
+    },
+  })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      fileFilter: (req, file, callback) => {
+        if (!file.originalname.match(/\.(csv|txt)$/i)) {
+          return callback(new BadRequestException('Only CSV files are allowed'), false);
+        }
+        callback(null, true);
+      },
+      limits: { fileSize: 1024 * 1024 },
+    }),
+  )
+  bulkImportTracking(
+    @Request() req: any,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() uploadDto: BulkTrackingUploadDto,
   ) {
-    return this.ordersService.findAll(undefined, page, limit);
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    return this.orderBulkService.importTracking(file.buffer.toString('utf-8'), uploadDto.markShipped ?? true, req.user);
+  }
+
+  @Post('bulk/packing-slips')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download packing slips for several orders as one PDF (admin only)' })
+  async bulkPackingSlips(@Body() bulkDto: BulkOrderIdsDto, @Res() res: Response) {
+    const pdf = await this.orderBulkService.packingSlips(bulkDto.orderIds);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename=packing-slips.pdf');
+    res.send(pdf);
+  }
+
+  @Post('bulk/pick-list')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download a pick list of several orders grouped by SKU as PDF (admin only)' })
+  async bulkPickList(@Body() bulkDto: BulkOrderIdsDto, @Res() res: Response) {
+    const pdf = await this.orderBulkService.pickList(bulkDto.orderIds);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename=pick-list.pdf');
+    res.send(pdf);
+  }
+
+  @Get('shipping-carriers')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List shipping carriers and their tracking link templates (admin only)' })
+  getShippingCarriers() {
+    return this.shippingCarriersService.findAll();
   }
 
   @Get('my-orders')
@@ -69,14 +194,34 @@ export class OrdersController {
   @Get('number/:orderNumber')
   @UseGuards(OptionalAuthGuard)
   @ApiBearerAuth()
-  @ApiHeader({ name: 'x-guest-token', required: false })
-  @ApiOperation({ summary: 'Get order by order number (requires matching user/guest or admin)' })
+  @ApiHeader({ name: 'x-order-token', required: false, description: 'Signed access token for guest orders' })
+  @ApiQuery({ name: 'token', required: false, description: 'Signed access token for guest orders' })
+  @ApiOperation({ summary: 'Get order by order number (owner, admin, or guest with a valid access token)' })
   findByOrderNumber(
     @Param('orderNumber') orderNumber: string,
     @Request() req: any,
-    @Headers('x-guest-token') guestToken: string | undefined,
+    @Headers('x-order-token') headerToken: string | undefined,
+    @Query('token') queryToken: string | undefined,
   ) {
-    return this.ordersService.findByOrderNumber(orderNumber, req.user?.id, guestToken, req.user?.role);
+    return this.ordersService.findByOrderNumber(orderNumber, req.user?.id, headerToken || queryToken, req.user?.role);
+  }
+
+  @Post('access/request')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Email a fresh access link for a guest order when order number and email match' })
+  async requestAccess(@Body() requestDto: RequestOrderAccessDto) {
+    await this.orderAccessService.requestAccessLink(requestDto.orderNumber, requestDto.email);
+    return { message: 'If the details match an order, we have sent a link to its email address.' };
+  }
+
+  @Post('access/payment')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get the order and its guest access token after a completed Stripe checkout' })
+  accessForPayment(@Body() accessDto: PaymentOrderAccessDto) {
+    return this.orderAccessService.issueForPayment(accessDto.paymentIntentId, accessDto.clientSecret);
   }
 
   @Get(':id')
@@ -87,6 +232,19 @@ export class OrdersController {
     return this.ordersService.findOne(id);
   }
 
+  @Get(':id/packing-slip')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download the packing slip of an order as PDF (admin only)' })
+  async packingSlip(@Param('id') id: string, @Res() res: Response) {
+    const pdf = await this.orderBulkService.packingSlips([id]);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename=packing-slip.pdf');
+    res.send(pdf);
+  }
+
   @Patch(':id/status')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
@@ -94,8 +252,137 @@ export class OrdersController {
   @ApiOperation({ summary: 'Update order status (admin only)' })
   updateStatus(
     @Param('id') id: string,
+    @Request() req: any,
     @Body() updateDto: UpdateOrderStatusDto,
   ) {
-    return this.ordersService.updateStatus(id, updateDto);
+    return this.ordersService.updateStatus(id, updateDto, req.user);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel an order, restock its items and release the payment (admin, or owner within the cancellation window)' })
+  cancel(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() cancelDto: CancelOrderDto,
+  ) {
+    return this.ordersService.cancel(id, cancelDto, req.user);
+  }
+
+  @Post(':id/reorder')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add the items of a past order to the current cart, reporting unavailable items and price changes' })
+  reorder(@Param('id') id: string, @Request() req: any) {
+    return this.orderReorderService.reorder(id, req.user.id);
+  }
+
+  @Post(':id/shipments')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a shipment with carrier and tracking number (admin only)' })
+  addShipment(@Param('id') id: string, @Request() req: any, @Body() shipmentDto: CreateShipmentDto) {
+    return this.orderShipmentsService.create(id, shipmentDto, req.user);
+  }
+
+  @Patch(':id/shipments/:shipmentId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a shipment, e.g. mark it delivered (admin only)' })
+  updateShipment(
+    @Param('id') id: string,
+    @Param('shipmentId') shipmentId: string,
+    @Request() req: any,
+    @Body() shipmentDto: UpdateShipmentDto,
+  ) {
+    return this.orderShipmentsService.update(id, shipmentId, shipmentDto, req.user);
+  }
+
+  @Get(':id/notes')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get order notes (admins see internal notes, customers only messages addressed to them)' })
+  getNotes(@Param('id') id: string, @Request() req: any) {
+    return this.ordersService.getNotes(id, req.user);
+  }
+
+  @Post(':id/notes')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add an internal note or customer message to an order (admin only)' })
+  addNote(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() createNoteDto: CreateOrderNoteDto,
+  ) {
+    return this.ordersService.addNote(id, createNoteDto, req.user);
+  }
+
+  @Get(':id/edits')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the edit history of an order (admin only)' })
+  getEdits(@Param('id') id: string) {
+    return this.orderEditsService.getEdits(id);
+  }
+
+  @Post(':id/items')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a product to an unshipped order (admin only)' })
+  addItem(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() addItemDto: AddOrderItemDto,
+  ) {
+    return this.orderEditsService.addItem(id, addItemDto, req.user);
+  }
+
+  @Patch(':id/items/:itemId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the quantity of an order item (admin only)' })
+  updateItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Request() req: any,
+    @Body() updateItemDto: UpdateOrderItemDto,
+  ) {
+    return this.orderEditsService.updateItemQuantity(id, itemId, updateItemDto, req.user);
+  }
+
+  @Delete(':id/items/:itemId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove an item from an unshipped order (admin only)' })
+  @ApiQuery({ name: 'reason', required: false })
+  removeItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Request() req: any,
+    @Query('reason') reason?: string,
+  ) {
+    return this.orderEditsService.removeItem(id, itemId, req.user, reason);
+  }
+
+  @Patch(':id/addresses')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the shipping or billing address of an unshipped order (admin only)' })
+  updateAddresses(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() updateAddressesDto: UpdateOrderAddressesDto,
+  ) {
+    return this.orderEditsService.updateAddresses(id, updateAddressesDto, req.user);
   }
 }
@@ -1,20 +1,54 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
 import { Order } from './entities/order.entity';
 import { OrderItem } from './entities/order-item.entity';
+import { OrderStatusHistory } from './entities/order-status-history.entity';
+import { OrderNote } from './entities/order-note.entity';
+import { OrderEdit } from './entities/order-edit.entity';
+import { Shipment } from './entities/shipment.entity';
+import { ShipmentItem } from './entities/shipment-item.entity';
 import { OrdersService } from './orders.service';
+import { OrderEditsService } from './order-edits.service';
+import { OrderBulkService } from './order-bulk.service';
+import { PackingSlipPdfService } from './packing-slip-pdf.service';
+import { OrderExportService } from './order-export.service';
+import { OrderAccessService } from './order-access.service';
+import { OrderReorderService } from './order-reorder.service';
+import { OrderShipmentsService } from './order-shipments.service';
+import { ShippingCarriersService } from './shipping-carriers.service';
 import { OrdersController } from './orders.controller';
 import { CartModule } from '../cart/cart.module';
 import { ProductsModule } from '../products/products.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { ConfigurationModule } from '../configuration/configuration.module';
+import { SequencesModule } from '../sequences/sequences.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, OrderItem]),
+    TypeOrmModule.forFeature([Order, OrderItem, OrderStatusHistory, OrderNote, OrderEdit, Shipment, ShipmentItem]),
     forwardRef(() => CartModule),
     ProductsModule,
+    forwardRef(() => PaymentsModule),
+    ConfigurationModule,
+    SequencesModule,
+    MailModule,
+    // Secrets are passed per call by OrderAccessService
+    JwtModule.register({}),
+  ],
+  providers: [
+    OrdersService,
+    OrderEditsService,
+    OrderBulkService,
+    PackingSlipPdfService,
+    OrderExportService,
+    OrderAccessService,
+    OrderReorderService,
+    OrderShipmentsService,
+    ShippingCarriersService,
   ],
-  providers: [OrdersService],
   controllers: [OrdersController],
-  exports: [OrdersService],
+  exports: [OrdersService, OrderAccessService],
 })
 export class OrdersModule {}
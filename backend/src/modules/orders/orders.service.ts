@@ -1,106 +1,338 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Order, OrderStatus, PaymentStatus } from './entities/order.entity';
+import { Repository, EntityManager } from 'typeorm';
+import { Order, OrderStatus, PaymentStatus, PaymentMethod } from './entities/order.entity';
 import { OrderItem } from './entities/order-item.entity';
+import { OrderStatusHistory } from './entities/order-status-history.entity';
+import { OrderNote, OrderNoteVisibility } from './entities/order-note.entity';
 import { CartService } from '../cart/cart.service';
+import { CartItem } from '../cart/entities/cart-item.entity';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
 import { ProductsService } from '../products/products.service';
+import { StockReservationsService } from '../products/stock-reservations.service';
+import { PaymentsService } from '../payments/payments.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { OrderAccessService } from './order-access.service';
+import { ShippingCarriersService } from './shipping-carriers.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { CancelOrderDto } from './dto/cancel-order.dto';
+import { CreateOrderNoteDto } from './dto/create-order-note.dto';
+import { QueryOrdersDto } from './dto/query-orders.dto';
 import { UserRole } from '../users/entities/user.entity';
+import { OrderActor, getActorName } from './interfaces/order-actor.interface';
+import { OfflineCheckout } from './interfaces/offline-checkout.interface';
+import { PaidCheckout, PaidCheckoutLine } from './interfaces/paid-checkout.interface';
+import { assertOrderStatusTransition, assertPaymentStatusTransition } from './order-status.transitions';
+
+// What an order line is built from: a cart item, or a line of a paid checkout
+type OrderLineSource = Pick<CartItem, 'productId' | 'quantity' | 'price' | 'product'> & {
+  variantId?: string;
+  variant?: ProductVariant;
+};
 
 @Injectable()
 export class OrdersService {
   constructor(
     @InjectRepository(Order)
     private ordersRepository: Repository<Order>,
-    @InjectRepository(OrderItem)
-    private orderItemsRepository: Repository<OrderItem>,
+    @InjectRepository(OrderStatusHistory)
+    private statusHistoryRepository: Repository<OrderStatusHistory>,
+    @InjectRepository(OrderNote)
+    private orderNotesRepository: Repository<OrderNote>,
     private cartService: CartService,
     private productsService: ProductsService,
+    private stockReservationsService: StockReservationsService,
+    @Inject(forwardRef(() => PaymentsService))
+    private paymentsService: PaymentsService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+    private sequencesService: SequencesService,
+    private orderAccessService: OrderAccessService,
+    private shippingCarriersService: ShippingCarriersService,
   ) { }
 
-  async create(createOrderDto: CreateOrderDto, userId?: string, guestToken?: string): Promise<Order> {
-    const cart = await this.cartService.getCart(userId, guestToken);
+  // Yearly counter, e.g. 2026-000123. Orders placed before this scheme keep their ORD-... numbers.
+  private readonly DEFAULT_ORDER_NUMBER_FORMAT = '{YYYY}-{SEQ:6}';
+
+  // Customers may cancel their own orders for this long after placing them
+  private readonly DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+  // Statuses in which nothing has left the warehouse yet
+  private readonly CANCELLABLE_STATUSES = [OrderStatus.PENDING, OrderStatus.PAID, OrderStatus.PROCESSING];
+
+  async create(
+    createOrderDto: CreateOrderDto,
+    userId?: string,
+    guestToken?: string,
+    paymentIntentId?: string,
+    paid?: PaidCheckout,
+    offline?: OfflineCheckout,
+  ): Promise<Order> {
+    // Lines of a paid checkout come with it, since the customer's cart may have changed since
+    const cart = paid?.items ? null : await this.cartService.getCart(userId, guestToken);
+    const lines: OrderLineSource[] = paid?.items ? await this.resolvePaidLines(paid.items) : cart?.items ?? [];
 
-    if (!cart.items || cart.items.length === 0) {
+    if (lines.length === 0) {
       throw new BadRequestException('Cart is empty');
     }
 
-    // Generate order number
-    const orderNumber = this.generateOrderNumber();
-
     // Calculate totals
-    const subtotal = Number(cart.subtotal);
+    const subtotal = cart
+      ? Number(cart.subtotal)
+      : lines.reduce((sum, line) => sum + Number(line.price) * line.quantity, 0);
     const tax = subtotal * 0.22; // 22% VAT (Slovenia)
     const shippingCost = createOrderDto.shippingCost || 0;
     const discount = createOrderDto.discount || 0;
-    const total = subtotal + tax + shippingCost - discount;
-
-    // Create order
-    const order = this.ordersRepository.create({
-      orderNumber,
-      userId,
-      guestEmail: createOrderDto.guestEmail,
-      subtotal,
-      tax,
-      shippingCost,
-      discount,
-      total,
-      shippingAddress: createOrderDto.shippingAddress,
-      billingAddress: createOrderDto.billingAddress || createOrderDto.shippingAddress,
-      notes: createOrderDto.notes,
-      shippingMethod: createOrderDto.shippingMethod,
-    });
+    const codFee = offline?.fee ?? 0;
+    const total = subtotal + tax + shippingCost + codFee - discount;
 
-    const savedOrder = await this.ordersRepository.save(order) as Order;
+    if (paid && Math.abs(Math.round(total * 100) / 100 - Number(paid.amount)) >= 0.01) {
+      throw new BadRequestException(
+        `Order total ${total.toFixed(2)} EUR does not match the ${Number(paid.amount).toFixed(2)} EUR paid`,
+      );
+    }
 
-    // Create order items
-    const orderItems: OrderItem[] = [];
-    for (const cartItem of cart.items) {
-      const product = cartItem.product;
-      const primaryImage = product.images?.find((img) => img.isPrimary) || product.images?.[0];
+    // Stock, order, items and cart change together or not at all
+    const savedOrder = await this.ordersRepository.manager.transaction(async (manager) => {
+      // Concurrent orders for the same products wait here until this one commits
+      const products = await this.productsService.findForUpdate(
+        [...new Set(lines.map((line) => line.productId))],
+        manager,
+      );
+      const productsById = new Map(products.map((product) => [product.id, product]));
+
+      // A paid card checkout takes the stock it reserved; any other checkout must leave
+      // alone what other customers' checkouts are holding
+      if (!paymentIntentId) {
+        await this.productsService.applyAvailability(products, cart?.id, [], manager);
+      }
+      this.assertStockAvailable(lines, productsById, !!paymentIntentId);
+
+      const orderNumber = await this.generateOrderNumber(manager);
+      const order = await manager.save(
+        manager.create(Order, {
+          orderNumber,
+          userId,
+          guestEmail: createOrderDto.guestEmail,
+          subtotal,
+          tax,
+          shippingCost,
+          codFee,
+          discount,
+          total,
+          shippingAddress: createOrderDto.shippingAddress,
+          billingAddress: createOrderDto.billingAddress || createOrderDto.shippingAddress,
+          notes: createOrderDto.notes,
+          shippingMethod: createOrderDto.shippingMethod,
+          paymentIntentId,
+          paymentMethod: paymentIntentId ? PaymentMethod.CARD : offline?.method,
+          paymentReference: offline?.reference?.(orderNumber),
+        }),
+      );
+
+      const orderItems: OrderItem[] = [];
+      for (const cartItem of lines) {
+        const product = cartItem.product;
+        const primaryImage = product.images?.find((img) => img.isPrimary) || product.images?.[0];
+
+        orderItems.push(
+          manager.create(OrderItem, {
+            orderId: order.id,
+            productId: product.id,
+            variantId: cartItem.variantId,
+            productName: product.name,
+            productSku: product.sku,
+            variantName: cartItem.variant?.name,
+            variantAttributes: cartItem.variant?.attributes,
+            quantity: cartItem.quantity,
+            unitPrice: cartItem.price,
+            total: cartItem.price * cartItem.quantity,
+            imageUrl: primaryImage?.url,
+          }),
+        );
+
+        if (productsById.get(product.id)?.trackInventory) {
+          await this.productsService.decrementStock(product.id, cartItem.quantity, cartItem.variantId, manager);
+        }
+      }
+      await manager.save(orderItems);
 
-      const orderItem = this.orderItemsRepository.create({
-        orderId: savedOrder.id,
-        productId: product.id,
-        variantId: cartItem.variantId,
-        productName: product.name,
-        productSku: product.sku,
-        variantName: cartItem.variant?.name,
-        variantAttributes: cartItem.variant?.attributes,
-        quantity: cartItem.quantity,
-        unitPrice: cartItem.price,
-        total: cartItem.price * cartItem.quantity,
-        imageUrl: primaryImage?.url,
+      // The stock is decremented now, so the checkout's hold on it can go
+      if (paymentIntentId) {
+        await this.stockReservationsService.convert(paymentIntentId, manager);
+      } else if (cart) {
+        await this.stockReservationsService.releaseCart(cart.id, manager);
+      }
+
+      await manager.save(
+        manager.create(OrderStatusHistory, {
+          orderId: order.id,
+          fromStatus: null,
+          toStatus: order.status,
+          fromPaymentStatus: null,
+          toPaymentStatus: order.paymentStatus,
+          reason: 'Order placed',
+        }),
+      );
+
+      if (offline?.status) {
+        await this.transitionStatus(order, { status: offline.status }, undefined, offline.statusReason, manager);
+      }
+
+      if (cart) {
+        await this.cartService.clearCart(userId, guestToken, manager);
+      }
+
+      return order;
+    });
+
+    // Guests have no account to find the order in later, so they get a link by email
+    if (!userId && savedOrder.guestEmail) {
+      this.orderAccessService.sendAccessLink(savedOrder).catch((error) => {
+        console.error(`Failed to email access link for order ${savedOrder.orderNumber}:`, error);
       });
+    }
 
-      orderItems.push(orderItem);
+    return this.findOne(savedOrder.id);
+  }
 
-      // Decrement stock
-      if (product.trackInventory) {
-        await this.productsService.decrementStock(product.id, cartItem.quantity);
+  /**
+   * Checks the locked product rows, and the variant rows for items with a variant;
+   * products that allow backorders or do not track inventory can always be ordered.
+   */
+  private assertStockAvailable(
+    items: OrderLineSource[],
+    productsById: Map<string, Product>,
+    ignoreReservations: boolean,
+  ): void {
+    const wanted = new Map<string, number>();
+    const wantedVariants = new Map<string, number>();
+    for (const item of items) {
+      wanted.set(item.productId, (wanted.get(item.productId) || 0) + item.quantity);
+      if (item.variantId) {
+        wantedVariants.set(item.variantId, (wantedVariants.get(item.variantId) || 0) + item.quantity);
       }
     }
 
-    await this.orderItemsRepository.save(orderItems);
+    for (const [productId, quantity] of wanted) {
+      const product = productsById.get(productId);
+      if (!product) {
+        throw new BadRequestException('A product in the cart no longer exists');
+      }
+      this.productsService.assertInStock(product, quantity, null, ignoreReservations);
 
-    // Clear cart
-    await this.cartService.clearCart(userId, guestToken);
+      for (const variant of product.variants ?? []) {
+        const variantQuantity = wantedVariants.get(variant.id);
+        if (variantQuantity) {
+          this.productsService.assertInStock(product, variantQuantity, variant, ignoreReservations);
+        }
+      }
+    }
+  }
 
-    return this.findOne(savedOrder.id);
+  /**
+   * Load the products and variants of a paid checkout's lines, keeping the prices that were paid.
+   */
+  private async resolvePaidLines(items: PaidCheckoutLine[]): Promise<OrderLineSource[]> {
+    const lines: OrderLineSource[] = [];
+    for (const line of items) {
+      const product = await this.productsService.findOne(line.productId).catch(() => null);
+      const variant = line.variantId ? product?.variants?.find((v) => v.id === line.variantId) : undefined;
+      if (!product || (line.variantId && !variant)) {
+        throw new BadRequestException('A product in the paid checkout no longer exists');
+      }
+      lines.push({
+        productId: product.id,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        price: line.price,
+        product,
+        variant,
+      });
+    }
+    return lines;
   }
 
-  async findAll(userId?: string, page = 1, limit = 20) {
+  async findAll(query: QueryOrdersDto, userId?: string) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+    const {
+      search,
+      status,
+      paymentStatus,
+      dateFrom,
+      dateTo,
+      minTotal,
+      maxTotal,
+      sortBy = 'createdAt',
+      sortOrder = 'DESC',
+    } = query;
+
     const queryBuilder = this.ordersRepository
       .createQueryBuilder('order')
       .leftJoinAndSelect('order.items', 'items')
-      .orderBy('order.createdAt', 'DESC');
+      // Only what the list shows, never the password hash
+      .leftJoin('order.user', 'user')
+      .addSelect(['user.id', 'user.email', 'user.firstName', 'user.lastName']);
 
     if (userId) {
-      queryBuilder.where('order.userId = :userId', { userId });
+      queryBuilder.andWhere('order.userId = :userId', { userId });
+    }
+
+    // Search by order number fragment, customer/guest email or customer name
+    if (search) {
+      queryBuilder.andWhere(
+        `(order.orderNumber ILIKE :search OR order.guestEmail ILIKE :search OR user.email ILIKE :search
+          OR CONCAT(user.firstName, ' ', user.lastName) ILIKE :search
+          OR CONCAT(order.shippingAddress->>'firstName', ' ', order.shippingAddress->>'lastName') ILIKE :search)`,
+        { search: `%${search.trim()}%` },
+      );
+    }
+
+    if (status) {
+      queryBuilder.andWhere('order.status = :status', { status });
     }
 
+    if (paymentStatus) {
+      queryBuilder.andWhere('order.paymentStatus = :paymentStatus', { paymentStatus });
+    }
+
+    // Date range - both ends are whole days, so dateTo includes the orders placed on that day
+    if (dateFrom) {
+      queryBuilder.andWhere('order.createdAt >= CAST(:dateFrom AS date)', { dateFrom });
+    }
+
+    if (dateTo) {
+      queryBuilder.andWhere('order.createdAt < CAST(:dateTo AS date) + 1', { dateTo });
+    }
+
+    if (minTotal !== undefined) {
+      queryBuilder.andWhere('order.total >= :minTotal', { minTotal });
+    }
+
+    if (maxTotal !== undefined) {
+      queryBuilder.andWhere('order.total <= :maxTotal', { maxTotal });
+    }
+
+    // Sorting
+    const validSortFields = ['createdAt', 'total', 'orderNumber', 'status', 'paymentStatus'];
+    const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
+    const direction = sortOrder?.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+
+    queryBuilder.orderBy(`order.${sortField}`, direction);
+    queryBuilder.addOrderBy('order.id', direction);
+
     const skip = (page - 1) * limit;
     queryBuilder.skip(skip).take(limit);
 
@@ -120,93 +352,338 @@ export class OrdersService {
   async findOne(id: string): Promise<Order> {
     const order = await this.ordersRepository.findOne({
       where: { id },
-      relations: ['items', 'items.product', 'items.product.images', 'user'],
+      relations: [
+        'items',
+        'items.product',
+        'items.product.images',
+        'user',
+        'statusHistory',
+        'shipments',
+        'shipments.items',
+      ],
+      order: { statusHistory: { createdAt: 'ASC' }, shipments: { createdAt: 'ASC' } },
     });
     if (!order) {
       throw new NotFoundException('Order not found');
     }
+    await this.shippingCarriersService.applyTrackingUrls(order.shipments);
     return order;
   }
 
   async findByOrderNumber(
     orderNumber: string,
     userId?: string,
-    guestToken?: string,
+    accessToken?: string,
     userRole?: UserRole,
   ): Promise<Order> {
     const order = await this.ordersRepository.findOne({
       where: { orderNumber },
-      relations: ['items', 'items.product', 'items.product.images'],
+      relations: [
+        'items',
+        'items.product',
+        'items.product.images',
+        'statusHistory',
+        'shipments',
+        'shipments.items',
+      ],
+      order: { statusHistory: { createdAt: 'ASC' }, shipments: { createdAt: 'ASC' } },
     });
     if (!order) {
       throw new NotFoundException('Order not found');
     }
-    
-    // Authorization check: user must be admin, order owner, or guest who created the order
+
+    // Admins and the owner may always look; guests need the signed link from their email or confirmation page
     const isAdmin = userRole === UserRole.ADMIN;
     const isOrderOwner = userId && order.userId === userId;
-    // For guest orders, we check if the order has no userId (guest order) - guests can only view via confirmation page
-    // In a production system, you might also verify the guest token matches or require email verification
-    const isGuestOrder = !order.userId;
-    
-    if (!isAdmin && !isOrderOwner && !isGuestOrder) {
+    const hasValidLink =
+      !order.userId && !!accessToken && (await this.orderAccessService.verifyToken(accessToken, order));
+
+    if (!isAdmin && !isOrderOwner && !hasValidLink) {
       throw new ForbiddenException('You do not have permission to view this order');
     }
-    
+
+    await this.shippingCarriersService.applyTrackingUrls(order.shipments);
     return order;
   }
 
   async findUserOrders(userId: string, page = 1, limit = 20) {
-    return this.findAll(userId, page, limit);
+    return this.findAll({ page, limit }, userId);
+  }
+
+  async updateStatus(id: string, updateDto: UpdateOrderStatusDto, actor?: OrderActor): Promise<Order> {
+    const order = await this.findOne(id);
+
+    if (updateDto.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('Use POST /orders/:id/cancel to cancel an order so stock and payment are released');
+    }
+
+    let status = updateDto.status;
+    // Receiving payment on a fresh order moves it into processing, as before
+    if (
+      !status &&
+      updateDto.paymentStatus === PaymentStatus.PAID &&
+      order.status === OrderStatus.PENDING
+    ) {
+      status = OrderStatus.PROCESSING;
+    }
+
+    if (updateDto.trackingNumber) {
+      order.trackingNumber = updateDto.trackingNumber;
+    }
+
+    await this.transitionStatus(
+      order,
+      { status, paymentStatus: updateDto.paymentStatus },
+      actor,
+      updateDto.reason,
+    );
+
+    return this.findOne(id);
   }
 
-  async updateStatus(id: string, updateDto: UpdateOrderStatusDto): Promise<Order> {
+  /**
+   * Cancel an order before it ships: release the payment, put every item back
+   * into stock and record the reason.
+   * Admins can cancel any unshipped order, customers only their own within the
+   * configured cancellation window.
+   */
+  async cancel(id: string, cancelDto: CancelOrderDto, actor: OrderActor): Promise<Order> {
     const order = await this.findOne(id);
+    const isAdmin = actor.role === UserRole.ADMIN;
 
-    if (updateDto.status) {
-      order.status = updateDto.status;
+    if (!isAdmin) {
+      if (order.userId !== actor.id) {
+        throw new ForbiddenException('You do not have permission to cancel this order');
+      }
 
-      // Update timestamps based on status
-      if (updateDto.status === OrderStatus.SHIPPED) {
-        order.shippedAt = new Date();
-      } else if (updateDto.status === OrderStatus.DELIVERED) {
-        order.deliveredAt = new Date();
+      const windowHours = await this.getCancellationWindowHours();
+      const deadline = new Date(order.createdAt).getTime() + windowHours * 60 * 60 * 1000;
+      if (Date.now() > deadline) {
+        throw new BadRequestException(
+          `Orders can only be cancelled within ${windowHours} hours of being placed. Please contact support.`,
+        );
       }
     }
 
-    if (updateDto.paymentStatus) {
-      order.paymentStatus = updateDto.paymentStatus;
+    if (!this.CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`An order with status "${order.status}" can no longer be cancelled`);
+    }
+
+    // Check the order can take the new statuses before any money moves, e.g. a
+    // pending order whose payment just succeeded cannot go straight to refunded
+    const voidAction = await this.paymentsService.getVoidAction(order);
+    const paymentStatus =
+      voidAction === 'refund' || voidAction === 'manual_refund' ? PaymentStatus.REFUNDED : undefined;
+    assertOrderStatusTransition(order.status, OrderStatus.CANCELLED);
+    if (paymentStatus && paymentStatus !== order.paymentStatus) {
+      assertPaymentStatusTransition(order.paymentStatus, paymentStatus);
+    }
+
+    // Release the money first - if the provider refuses, the order stays untouched
+    await this.paymentsService.voidPayment(order, voidAction, actor, cancelDto.reason);
+
+    // Skip quantities a refund already put back on the shelf
+    const restocked = await this.paymentsService.getRestockedQuantities(order.id);
+
+    order.cancelledAt = new Date();
+    order.cancellationReason = cancelDto.reason;
+
+    await this.ordersRepository.manager.transaction(async (manager) => {
+      await this.restockItems(
+        order.items.map((item) => ({ item, quantity: item.quantity - (restocked.get(item.id) ?? 0) })),
+        manager,
+      );
+      await this.transitionStatus(
+        order,
+        { status: OrderStatus.CANCELLED, paymentStatus },
+        actor,
+        cancelDto.reason,
+        manager,
+      );
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Notes on an order, oldest first. Customers only see notes addressed to them.
+   */
+  async getNotes(orderId: string, actor: OrderActor): Promise<OrderNote[]> {
+    const order = await this.ordersRepository.findOne({ where: { id: orderId } });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const isAdmin = actor.role === UserRole.ADMIN;
+    if (!isAdmin && order.userId !== actor.id) {
+      throw new ForbiddenException('You do not have permission to view this order');
+    }
+
+    return this.orderNotesRepository.find({
+      where: isAdmin ? { orderId } : { orderId, visibility: OrderNoteVisibility.CUSTOMER },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async addNote(orderId: string, dto: CreateOrderNoteDto, actor: OrderActor): Promise<OrderNote> {
+    const order = await this.ordersRepository.findOne({ where: { id: orderId } });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
 
-      if (updateDto.paymentStatus === PaymentStatus.PAID) {
-        order.paidAt = new Date();
-        order.status = OrderStatus.PROCESSING;
+    return this.orderNotesRepository.save(
+      this.orderNotesRepository.create({
+        orderId,
+        content: dto.content.trim(),
+        visibility: dto.visibility ?? OrderNoteVisibility.INTERNAL,
+        authorId: actor.id,
+        authorName: getActorName(actor),
+      }),
+    );
+  }
+
+  /**
+   * Return the given order item quantities to stock, to the variant when the item has one.
+   * Items whose product was deleted or does not track inventory are skipped.
+   */
+  async restockItems(items: Array<{ item: OrderItem; quantity: number }>, manager?: EntityManager): Promise<void> {
+    for (const { item, quantity } of items) {
+      if (!item.productId || quantity <= 0) {
+        continue;
+      }
+
+      const product = item.product ?? (await this.productsService.findOne(item.productId).catch(() => null));
+      if (product?.trackInventory) {
+        await this.productsService.incrementStock(item.productId, quantity, item.variantId, manager);
       }
     }
+  }
 
-    if (updateDto.trackingNumber) {
-      order.trackingNumber = updateDto.trackingNumber;
+  /**
+   * Move an order to a new status and/or payment status.
+   * Both changes are validated against the transition graph before anything is
+   * written, and every effective change is recorded in the status history.
+   * Pass a manager to make the change part of the caller's transaction.
+   */
+  async transitionStatus(
+    order: Order,
+    changes: { status?: OrderStatus; paymentStatus?: PaymentStatus },
+    actor?: OrderActor,
+    reason?: string,
+    manager?: EntityManager,
+  ): Promise<Order> {
+    const ordersRepository = manager ? manager.getRepository(Order) : this.ordersRepository;
+    const statusHistoryRepository = manager ? manager.getRepository(OrderStatusHistory) : this.statusHistoryRepository;
+    const fromStatus = order.status;
+    const fromPaymentStatus = order.paymentStatus;
+    const toStatus = changes.status ?? fromStatus;
+    const toPaymentStatus = changes.paymentStatus ?? fromPaymentStatus;
+
+    if (toStatus !== fromStatus) {
+      assertOrderStatusTransition(fromStatus, toStatus);
+    }
+    if (toPaymentStatus !== fromPaymentStatus) {
+      assertPaymentStatusTransition(fromPaymentStatus, toPaymentStatus);
     }
 
-    return this.ordersRepository.save(order);
+    if (toStatus === fromStatus && toPaymentStatus === fromPaymentStatus) {
+      return ordersRepository.save(order);
+    }
+
+    const now = new Date();
+    order.status = toStatus;
+    order.paymentStatus = toPaymentStatus;
+
+    if (toStatus !== fromStatus) {
+      if (toStatus === OrderStatus.SHIPPED) {
+        order.shippedAt = now;
+      } else if (toStatus === OrderStatus.DELIVERED) {
+        order.deliveredAt = now;
+      }
+    }
+
+    if (toPaymentStatus !== fromPaymentStatus && toPaymentStatus === PaymentStatus.PAID) {
+      order.paidAt = now;
+      order.amountPaid = order.amountPaid ?? order.total;
+    }
+
+    const savedOrder = await ordersRepository.save(order);
+
+    await statusHistoryRepository.save(
+      statusHistoryRepository.create({
+        orderId: order.id,
+        fromStatus,
+        toStatus,
+        fromPaymentStatus,
+        toPaymentStatus,
+        changedById: actor?.id,
+        changedByName: getActorName(actor),
+        reason,
+      }),
+    );
+
+    return savedOrder;
+  }
+
+  async findByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
+    const order = await this.ordersRepository.findOne({ where: { paymentIntentId } });
+    return order ? this.findOne(order.id) : null;
   }
 
   async updatePaymentIntent(orderId: string, paymentIntentId: string): Promise<Order> {
     const order = await this.findOne(orderId);
     order.paymentIntentId = paymentIntentId;
+    order.paymentMethod = PaymentMethod.CARD;
     return this.ordersRepository.save(order);
   }
 
+  async findByPaymentReference(paymentReference: string): Promise<Order | null> {
+    const order = await this.ordersRepository.findOne({ where: { paymentReference } });
+    return order ? this.findOne(order.id) : null;
+  }
+
   async markAsPaid(orderId: string): Promise<Order> {
     const order = await this.findOne(orderId);
-    order.paymentStatus = PaymentStatus.PAID;
-    order.status = OrderStatus.PROCESSING;
-    order.paidAt = new Date();
-    return this.ordersRepository.save(order);
+
+    // Webhook retries must not fail on an order that is already paid
+    if (order.paymentStatus === PaymentStatus.PAID) {
+      return order;
+    }
+
+    return this.transitionStatus(
+      order,
+      {
+        status: order.status === OrderStatus.PENDING ? OrderStatus.PROCESSING : undefined,
+        paymentStatus: PaymentStatus.PAID,
+      },
+      undefined,
+      'Payment received',
+    );
+  }
+
+  private async getCancellationWindowHours(): Promise<number> {
+    const value =
+      (await this.configurationService.get('ORDER_CANCELLATION_WINDOW_HOURS')) ??
+      this.configService.get<string>('ORDER_CANCELLATION_WINDOW_HOURS');
+    const hours = Number(value);
+    return value && !isNaN(hours) ? hours : this.DEFAULT_CANCELLATION_WINDOW_HOURS;
   }
 
-  private generateOrderNumber(): string {
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `ORD-${timestamp}-${random}`;
+  /**
+   * Next number from the `order` sequence, rendered with ORDER_NUMBER_FORMAT.
+   * The counter restarts every year; a format without a year token uses one
+   * running counter instead, since restarting it would repeat numbers.
+   */
+  private async generateOrderNumber(manager: EntityManager): Promise<string> {
+    const configured =
+      (await this.configurationService.get('ORDER_NUMBER_FORMAT')) ??
+      this.configService.get<string>('ORDER_NUMBER_FORMAT');
+    const format = configured?.includes('{SEQ') ? configured : this.DEFAULT_ORDER_NUMBER_FORMAT;
+
+    const now = new Date();
+    const year = /\{YY(YY)?\}/.test(format) ? now.getFullYear() : 0;
+    const value = await this.sequencesService.next('order', year, manager);
+
+    return this.sequencesService.format(format, value, now);
   }
 }
@@ -0,0 +1,262 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import * as PDFDocument from 'pdfkit';
+import * as bwipjs from 'bwip-js';
+import { Order, PaymentMethod, PaymentStatus } from './entities/order.entity';
+import { OrderItem } from './entities/order-item.entity';
+
+// Same DejaVu fonts as the invoices, for č/š/ž in names and addresses
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_REGULAR = path.join(FONT_DIR, 'DejaVuSans.ttf');
+const FONT_BOLD = path.join(FONT_DIR, 'DejaVuSans-Bold.ttf');
+
+const PAGE_MARGIN = 50;
+
+interface TableColumn {
+  label: string;
+  width: number;
+  align: 'left' | 'right';
+}
+
+const TABLE_COLUMNS: TableColumn[] = [
+  { label: 'Artikel', width: 285, align: 'left' },
+  { label: 'Šifra', width: 140, align: 'left' },
+  { label: 'Količina', width: 70, align: 'right' },
+];
+
+const PICK_LIST_COLUMNS: TableColumn[] = [
+  { label: 'Šifra', width: 105, align: 'left' },
+  { label: 'Artikel', width: 210, align: 'left' },
+  { label: 'Količina', width: 60, align: 'right' },
+  { label: 'Naročila', width: 120, align: 'left' },
+];
+
+interface PickListLine {
+  sku: string;
+  name: string;
+  quantity: number;
+  orders: Map<string, number>;
+}
+
+/**
+ * Renders warehouse paperwork as A4 PDFs: packing slips (dobavnice), each order
+ * starting on a new page, and a pick list that adds up the items of several orders.
+ */
+@Injectable()
+export class PackingSlipPdfService {
+  async render(orders: Order[], sellerName?: string): Promise<Buffer> {
+    // Barcodes are rendered up front; pdfkit draws synchronously
+    const barcodes = await Promise.all(orders.map((order) => this.renderBarcode(order.orderNumber)));
+
+    return this.createDocument(
+      orders.length === 1 ? `Dobavnica ${orders[0].orderNumber}` : 'Dobavnice',
+      (doc) => {
+        orders.forEach((order, i) => {
+          doc.addPage();
+          this.renderHeader(doc, order, barcodes[i], sellerName);
+          this.renderItems(doc, order);
+          this.renderNotes(doc, order);
+        });
+      },
+    );
+  }
+
+  /**
+   * One line per SKU (and variant) across all orders, sorted by SKU so the
+   * warehouse can walk the shelves once.
+   */
+  renderPickList(orders: Order[], sellerName?: string): Promise<Buffer> {
+    const lines = new Map<string, PickListLine>();
+    for (const order of orders) {
+      for (const item of order.items) {
+        const sku = item.variant?.sku || item.productSku || '';
+        const key = `${sku}|${item.productName}|${item.variantName ?? ''}`;
+        const line = lines.get(key) ?? { sku, name: this.describeItem(item), quantity: 0, orders: new Map() };
+        line.quantity += item.quantity;
+        line.orders.set(order.orderNumber, (line.orders.get(order.orderNumber) || 0) + item.quantity);
+        lines.set(key, line);
+      }
+    }
+    const sorted = [...lines.values()].sort(
+      (a, b) => (a.sku || '\uffff').localeCompare(b.sku || '\uffff') || a.name.localeCompare(b.name),
+    );
+
+    return this.createDocument('Seznam za pobiranje', (doc) => {
+      doc.addPage();
+      const right = doc.page.width - PAGE_MARGIN;
+      if (sellerName) {
+        doc.font('bold').fontSize(14).text(sellerName, PAGE_MARGIN, PAGE_MARGIN);
+      }
+      doc.font('bold').fontSize(18).text('SEZNAM ZA POBIRANJE', right - 280, PAGE_MARGIN, { width: 280, align: 'right' });
+      doc.font('regular').fontSize(9).text(
+        `${this.formatDate(new Date())} · ${orders.length} naročil`,
+        right - 280,
+        PAGE_MARGIN + 26,
+        { width: 280, align: 'right' },
+      );
+      doc.y = PAGE_MARGIN + 60;
+
+      this.renderTableHeader(doc, PICK_LIST_COLUMNS);
+      for (const line of sorted) {
+        if (doc.y > doc.page.height - 100) {
+          doc.addPage();
+          this.renderTableHeader(doc, PICK_LIST_COLUMNS);
+        }
+        const orderList = [...line.orders]
+          .map(([orderNumber, quantity]) => (quantity > 1 ? `${orderNumber} (${quantity})` : orderNumber))
+          .join('\n');
+        this.renderRow(doc, PICK_LIST_COLUMNS, [line.sku, line.name, String(line.quantity), orderList], 'regular');
+      }
+
+      this.renderTableFooter(
+        doc,
+        PICK_LIST_COLUMNS,
+        `Skupaj kosov: ${sorted.reduce((sum, line) => sum + line.quantity, 0)}`,
+      );
+    });
+  }
+
+  private createDocument(title: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        autoFirstPage: false,
+        info: { Title: title },
+      });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.registerFont('regular', FONT_REGULAR);
+      doc.registerFont('bold', FONT_BOLD);
+
+      draw(doc);
+      doc.end();
+    });
+  }
+
+  private renderBarcode(text: string): Promise<Buffer> {
+    return bwipjs.toBuffer({
+      bcid: 'code128',
+      text,
+      scale: 3,
+      height: 12,
+      includetext: true,
+      textxalign: 'center',
+    });
+  }
+
+  private renderHeader(doc: PDFKit.PDFDocument, order: Order, barcode: Buffer, sellerName?: string): void {
+    const right = doc.page.width - PAGE_MARGIN;
+    const address = order.shippingAddress;
+
+    if (sellerName) {
+      doc.font('bold').fontSize(14).text(sellerName, PAGE_MARGIN, PAGE_MARGIN);
+    }
+    const barcodeTop = sellerName ? PAGE_MARGIN + 25 : PAGE_MARGIN;
+    doc.image(barcode, PAGE_MARGIN, barcodeTop, { fit: [180, 50] });
+
+    doc.font('bold').fontSize(20).text('DOBAVNICA', right - 200, PAGE_MARGIN, { width: 200, align: 'right' });
+    doc.font('regular').fontSize(9);
+    let y = PAGE_MARGIN + 30;
+    const rows = [
+      ['Naročilo', order.orderNumber],
+      ['Datum naročila', this.formatDate(order.createdAt)],
+      ['Dostava', order.shippingMethod || '-'],
+    ];
+    // Tells the packer to book the parcel as cash on delivery
+    if (order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY && order.paymentStatus === PaymentStatus.PENDING) {
+      rows.push(['Odkupnina', `${Number(order.total).toFixed(2).replace('.', ',')} EUR`]);
+    }
+    for (const [label, value] of rows) {
+      doc.text(`${label}:`, right - 200, y, { width: 90, lineBreak: false });
+      doc.text(value, right - 110, y, { width: 110, align: 'right' });
+      y += 13;
+    }
+
+    y = Math.max(y, doc.y, barcodeTop + 50) + 25;
+    doc.font('bold').fontSize(10).text('Naslov za dostavo', PAGE_MARGIN, y);
+    doc.font('regular').fontSize(11);
+    [
+      `${address.firstName} ${address.lastName}`,
+      address.street,
+      address.street2,
+      `${address.postalCode} ${address.city}`,
+      address.country,
+      address.phone,
+    ]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string));
+    doc.moveDown(2);
+  }
+
+  private renderItems(doc: PDFKit.PDFDocument, order: Order): void {
+    this.renderTableHeader(doc, TABLE_COLUMNS);
+
+    for (const item of order.items) {
+      if (doc.y > doc.page.height - 120) {
+        doc.addPage();
+      }
+      this.renderRow(
+        doc,
+        TABLE_COLUMNS,
+        [this.describeItem(item), item.variant?.sku || item.productSku || '', String(item.quantity)],
+        'regular',
+      );
+    }
+
+    const totalQuantity = order.items.reduce((sum, item) => sum + item.quantity, 0);
+    this.renderTableFooter(doc, TABLE_COLUMNS, `Skupaj kosov: ${totalQuantity}`);
+  }
+
+  private renderTableHeader(doc: PDFKit.PDFDocument, columns: TableColumn[]): void {
+    const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    this.renderRow(doc, columns, columns.map((column) => column.label), 'bold');
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + tableWidth, doc.y).stroke();
+    doc.y += 6;
+  }
+
+  private renderTableFooter(doc: PDFKit.PDFDocument, columns: TableColumn[], total: string): void {
+    const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + tableWidth, doc.y).stroke();
+    doc.y += 6;
+    doc.font('bold').fontSize(10).text(total, PAGE_MARGIN, doc.y, { width: tableWidth - 2, align: 'right' });
+    doc.moveDown(2);
+  }
+
+  private renderRow(doc: PDFKit.PDFDocument, columns: TableColumn[], cells: string[], font: 'regular' | 'bold'): void {
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    let height = 0;
+    doc.font(font).fontSize(10);
+    cells.forEach((cell, i) => {
+      const { width, align } = columns[i];
+      doc.text(cell, x + 4, y, { width: width - 8, align });
+      height = Math.max(height, doc.y - y);
+      x += width;
+    });
+    doc.y = y + height + 6;
+  }
+
+  // Product name, then the variant and its attributes (e.g. "velikost: L, barva: rdeča") on their own lines
+  private describeItem(item: OrderItem): string {
+    const attributes = Object.entries(item.variantAttributes ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join(', ');
+    return [item.productName, item.variantName, attributes].filter(Boolean).join('\n');
+  }
+
+  private renderNotes(doc: PDFKit.PDFDocument, order: Order): void {
+    if (!order.notes) return;
+
+    doc.font('bold').fontSize(10).text('Opomba kupca', PAGE_MARGIN);
+    doc.font('regular').fontSize(9).text(order.notes);
+  }
+
+  private formatDate(date: Date): string {
+    const d = new Date(date);
+    return `${String(d.getDate()).padStart(2, '0')}.${String(d.getMonth() + 1).padStart(2, '0')}.${d.getFullYear()}`;
+  }
+}
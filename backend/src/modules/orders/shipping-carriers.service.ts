@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { Shipment, ShipmentCarrier } from './entities/shipment.entity';
+
+export interface ShippingCarrier {
+  code: ShipmentCarrier;
+  name: string;
+  trackingUrlTemplate: string | null;
+}
+
+// {trackingNumber} is replaced with the shipment's tracking number
+const CARRIER_DEFAULTS: Record<ShipmentCarrier, { name: string; trackingUrlTemplate: string | null }> = {
+  [ShipmentCarrier.POSTA_SLOVENIJE]: {
+    name: 'Pošta Slovenije',
+    trackingUrlTemplate: 'https://sledenje.posta.si/?ttn={trackingNumber}',
+  },
+  [ShipmentCarrier.GLS]: {
+    name: 'GLS',
+    trackingUrlTemplate: 'https://gls-group.com/SI/sl/sledenje-posiljk?match={trackingNumber}',
+  },
+  [ShipmentCarrier.DPD]: {
+    name: 'DPD',
+    trackingUrlTemplate: 'https://tracking.dpd.de/status/sl_SI/parcel/{trackingNumber}',
+  },
+  [ShipmentCarrier.EXPRESS_ONE]: {
+    name: 'Express One',
+    trackingUrlTemplate: 'https://tracking.expressone.si/?plc_number={trackingNumber}',
+  },
+  [ShipmentCarrier.OTHER]: {
+    name: 'Other',
+    trackingUrlTemplate: null,
+  },
+};
+
+/**
+ * Carrier names and tracking link templates. A template can be overridden per
+ * carrier with TRACKING_URL_<CARRIER>, e.g. TRACKING_URL_GLS.
+ */
+@Injectable()
+export class ShippingCarriersService {
+  constructor(
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  async findAll(): Promise<ShippingCarrier[]> {
+    return Promise.all(
+      Object.values(ShipmentCarrier).map(async (code) => ({
+        code,
+        name: CARRIER_DEFAULTS[code].name,
+        trackingUrlTemplate: await this.getTemplate(code),
+      })),
+    );
+  }
+
+  /**
+   * Match a carrier by code or name, ignoring case and accents ("posta slovenije", "GLS").
+   */
+  findCarrier(value: string): ShipmentCarrier | undefined {
+    const normalized = this.normalize(value);
+    return Object.values(ShipmentCarrier).find(
+      (code) => this.normalize(code) === normalized || this.normalize(CARRIER_DEFAULTS[code].name) === normalized,
+    );
+  }
+
+  /**
+   * Fill in carrierName and, where the shipment has no link of its own, the
+   * trackingUrl from the carrier's template.
+   */
+  async applyTrackingUrls(shipments: Shipment[] | undefined): Promise<void> {
+    for (const shipment of shipments ?? []) {
+      shipment.carrierName = CARRIER_DEFAULTS[shipment.carrier]?.name ?? shipment.carrier;
+      if (!shipment.trackingUrl) {
+        const template = await this.getTemplate(shipment.carrier);
+        if (template) {
+          shipment.trackingUrl = template.replace('{trackingNumber}', encodeURIComponent(shipment.trackingNumber));
+        }
+      }
+    }
+  }
+
+  private normalize(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  private async getTemplate(carrier: ShipmentCarrier): Promise<string | null> {
+    const key = `TRACKING_URL_${carrier.toUpperCase()}`;
+    // Empty values (e.g. from .env.example) mean "use the built-in link"
+    return (
+      (await this.configurationService.get(key)) ||
+      this.configService.get<string>(key) ||
+      CARRIER_DEFAULTS[carrier]?.trackingUrlTemplate ||
+      null
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { OrdersService } from '../orders/orders.service';
+import { OrderAccessService } from '../orders/order-access.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { MailService } from '../mail/mail.service';
+import { BankTransferService } from './bank-transfer.service';
+import { PaymentTransactionsService } from './payment-transactions.service';
+
+describe('BankTransferService', () => {
+  let service: BankTransferService;
+  let ordersService: { findByPaymentReference: jest.Mock };
+
+  beforeEach(async () => {
+    ordersService = { findByPaymentReference: jest.fn().mockResolvedValue(null) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BankTransferService,
+        { provide: OrdersService, useValue: ordersService },
+        { provide: OrderAccessService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: ConfigurationService, useValue: { get: jest.fn() } },
+        { provide: MailService, useValue: {} },
+        { provide: PaymentTransactionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(BankTransferService);
+  });
+
+  describe('createReference', () => {
+    it('appends the mod 11 check digit to the digits of the order number', () => {
+      // Weights 2..11 from the right: 3*2 + 2*3 + 1*4 + 6*8 + 2*9 + 2*11 = 104, 104 % 11 = 5
+      expect(service.createReference('2026-000123')).toBe('SI12 20260001236');
+    });
+
+    it('uses 0 when the check digit would be 10 or 11', () => {
+      expect(service.createReference('ORD-6')).toBe('SI12 60');
+      expect(service.createReference('ORD-0')).toBe('SI12 00');
+    });
+
+    it('falls back to SI00 for order numbers SI12 cannot hold', () => {
+      expect(service.createReference('1234567890-12345678901')).toBe('SI00 123456789012345678901');
+      expect(service.createReference('ORD')).toBe('SI00 0');
+    });
+  });
+
+  describe('importStatement', () => {
+    async function parse(csv: string) {
+      const { results } = await service.importStatement(csv);
+      return results.map(({ reference, amount }) => ({ reference, amount }));
+    }
+
+    it('reads the amount from the column named like one', async () => {
+      const csv = [
+        'Datum;Namen;Referenca;Znesek',
+        '02.03.2026;Placilo narocila;SI12 20260001236;1.234,56',
+        '02.03.2026;Provizija banke;;-1,20',
+      ].join('\n');
+
+      expect(await parse(csv)).toEqual([{ reference: 'SI12 20260001236', amount: 1234.56 }]);
+      expect(ordersService.findByPaymentReference).toHaveBeenCalledWith('SI12 20260001236');
+    });
+
+    it('takes the first money-looking cell without a header and normalizes the reference', async () => {
+      const csv = '\uFEFF"2026-03-02","SI12-2026-0001236","49.90","EUR"\r\n"2026-03-02","no reference","10.00","EUR"';
+
+      expect(await parse(csv)).toEqual([{ reference: 'SI12 20260001236', amount: 49.9 }]);
+    });
+
+    it('leaves out lines without an amount or with money going out', async () => {
+      const csv = ['Referenca;Znesek', 'SI00 123;0,00', 'SI00 124;-5,00', 'SI00 125;abc', 'SI00 126;5,00'].join('\n');
+
+      expect(await parse(csv)).toEqual([{ reference: 'SI00 126', amount: 5 }]);
+    });
+
+    it('rejects a statement without any payment references', async () => {
+      await expect(service.importStatement('Datum;Znesek\n02.03.2026;10,00')).rejects.toThrow(BadRequestException);
+    });
+
+    it('reports references that match no order', async () => {
+      const result = await service.importStatement('Referenca;Znesek\nSI12 60;12,00');
+
+      expect(result).toEqual({
+        succeeded: 0,
+        failed: 1,
+        results: [{ reference: 'SI12 60', amount: 12, success: false, error: 'No order with this reference' }],
+      });
+    });
+  });
+});
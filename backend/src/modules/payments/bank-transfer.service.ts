@@ -0,0 +1,467 @@
+import { Injectable, Logger, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bwipjs from 'bwip-js';
+import { OrdersService } from '../orders/orders.service';
+import { OrderAccessService } from '../orders/order-access.service';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../orders/entities/order.entity';
+import { OrderActor } from '../orders/interfaces/order-actor.interface';
+import { UserRole } from '../users/entities/user.entity';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { MailService } from '../mail/mail.service';
+import { CreateCheckoutIntentDto } from './dto/create-checkout-intent.dto';
+import { MarkBankTransferPaidDto } from './dto/bank-transfer.dto';
+import { PaymentTransactionsService } from './payment-transactions.service';
+import { PaymentTransactionType } from './entities/payment-transaction.entity';
+
+export interface BankTransferInstructions {
+  recipientName: string;
+  recipientAddress: string;
+  iban: string;
+  bic?: string;
+  reference: string;
+  amount: number;
+  purpose: string;
+  dueDate: Date;
+  paid: boolean;
+  // UPN QR code as PNG data URL
+  qrCode: string;
+}
+
+export interface StatementLineResult {
+  reference: string;
+  amount: number;
+  orderId?: string;
+  orderNumber?: string;
+  success: boolean;
+  error?: string;
+}
+
+// Same shape as the bulk order operations
+export interface StatementImportResult {
+  succeeded: number;
+  failed: number;
+  results: StatementLineResult[];
+}
+
+interface Recipient {
+  name: string;
+  street: string;
+  city: string;
+  iban: string;
+  bic?: string;
+}
+
+// ISO-8859-2 codes of the letters UPN QR readers expect beyond ASCII
+const LATIN2_CODES: Record<string, number> = {
+  Č: 0xc8, č: 0xe8, Š: 0xa9, š: 0xb9, Ž: 0xae, ž: 0xbe, Ć: 0xc6, ć: 0xe6, Đ: 0xd0, đ: 0xf0,
+};
+// Letters with the same code in ISO-8859-1 and ISO-8859-2
+const LATIN2_SHARED = 'ÁÂÄÇÉËÍÎÓÔÖ×ÚÜÝßáâäçéëíîóôö÷úüý';
+
+/**
+ * Payment by bank transfer with a UPN form. The order is placed straight away and waits
+ * for the money; staff mark it paid by hand or by importing a bank statement.
+ */
+@Injectable()
+export class BankTransferService {
+  private readonly logger = new Logger(BankTransferService.name);
+
+  constructor(
+    @Inject(forwardRef(() => OrdersService))
+    private ordersService: OrdersService,
+    @Inject(forwardRef(() => OrderAccessService))
+    private orderAccessService: OrderAccessService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+    private mailService: MailService,
+    private paymentTransactionsService: PaymentTransactionsService,
+  ) { }
+
+  // Days the customer has to pay, printed as the deadline on the UPN form
+  private readonly DEFAULT_DUE_DAYS = 8;
+
+  // Purchase of goods and services
+  private readonly PURPOSE_CODE = 'GDSV';
+
+  private readonly REFERENCE_PATTERN = /SI\s?(00|12)\s?([\d-]+)/i;
+
+  /**
+   * Bank transfer is offered once the shop's IBAN is configured.
+   */
+  async isAvailable(): Promise<boolean> {
+    return !!(await this.getSetting('SELLER_IBAN'));
+  }
+
+  /**
+   * Place the order from the cart and email the payment details. Guests get the token
+   * for the confirmation page, as after a card payment.
+   */
+  async checkout(
+    dto: CreateCheckoutIntentDto,
+    userId?: string,
+    guestToken?: string,
+  ): Promise<{ orderId: string; orderNumber: string; accessToken: string | null }> {
+    if (!(await this.isAvailable())) {
+      throw new BadRequestException('Bank transfer is not available');
+    }
+
+    const order = await this.ordersService.create(dto, userId, guestToken, undefined, undefined, {
+      method: PaymentMethod.BANK_TRANSFER,
+      reference: (orderNumber) => this.createReference(orderNumber),
+    });
+
+    this.sendInstructions(order).catch((error) => {
+      this.logger.error(`Failed to email bank transfer details for order ${order.orderNumber}`, error);
+    });
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      accessToken: order.userId ? null : await this.orderAccessService.createToken(order),
+    };
+  }
+
+  /**
+   * Payment details and UPN QR code of an order, for whoever may view the order.
+   */
+  async getInstructions(
+    orderNumber: string,
+    userId?: string,
+    accessToken?: string,
+    userRole?: UserRole,
+  ): Promise<BankTransferInstructions> {
+    const order = await this.ordersService.findByOrderNumber(orderNumber, userId, accessToken, userRole);
+    return this.buildInstructions(order);
+  }
+
+  async markPaid(orderId: string, dto: MarkBankTransferPaidDto, actor?: OrderActor): Promise<Order> {
+    const order = await this.ordersService.findOne(orderId);
+    this.assertAwaitingTransfer(order);
+    return this.registerPayment(order, dto.amount ?? Number(order.total), actor, 'Bank transfer received');
+  }
+
+  /**
+   * Mark orders paid from a bank statement export (CSV). Lines are matched on the
+   * payment reference; lines without one are other transactions and are left out.
+   * An order is only marked paid when at least its total came in.
+   */
+  async importStatement(csv: string, actor?: OrderActor): Promise<StatementImportResult> {
+    const lines = this.parseStatementCsv(csv);
+    if (lines.length === 0) {
+      throw new BadRequestException('The file contains no payments with an SI00 or SI12 reference');
+    }
+
+    const results: StatementLineResult[] = [];
+    for (const { reference, amount } of lines) {
+      const order = await this.ordersService.findByPaymentReference(reference);
+      if (!order) {
+        results.push({ reference, amount, success: false, error: 'No order with this reference' });
+        continue;
+      }
+
+      const result: StatementLineResult = {
+        reference,
+        amount,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        success: false,
+      };
+      try {
+        this.assertAwaitingTransfer(order);
+        if (amount + 0.005 < Number(order.total)) {
+          throw new BadRequestException(
+            `Received ${amount.toFixed(2)}, the order total is ${Number(order.total).toFixed(2)}`,
+          );
+        }
+        await this.registerPayment(order, amount, actor, `Bank transfer received (statement, ${reference})`);
+        result.success = true;
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      results.push(result);
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    return { succeeded, failed: results.length - succeeded, results };
+  }
+
+  /**
+   * SI12 reference built from the digits of the order number with a mod 11 check digit.
+   * Order numbers with more digits than SI12 allows fall back to SI00, which has no check digit.
+   */
+  createReference(orderNumber: string): string {
+    const digits = orderNumber.replace(/\D/g, '');
+    if (digits.length === 0 || digits.length > 20) {
+      return `SI00 ${(digits || '0').slice(-22)}`;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      sum += Number(digits[digits.length - 1 - i]) * (i + 2);
+    }
+    const check = 11 - (sum % 11);
+    return `SI12 ${digits}${check >= 10 ? 0 : check}`;
+  }
+
+  private async buildInstructions(order: Order): Promise<BankTransferInstructions> {
+    if (order.paymentMethod !== PaymentMethod.BANK_TRANSFER || !order.paymentReference) {
+      throw new BadRequestException('This order is not paid by bank transfer');
+    }
+
+    const recipient = await this.getRecipient();
+    const dueDate = new Date(new Date(order.createdAt).getTime() + (await this.getDueDays()) * 24 * 60 * 60 * 1000);
+    const amount = Number(order.total);
+    const purpose = `Plačilo naročila ${order.orderNumber}`;
+
+    // The UPN QR standard fixes version 15 with error correction M; BWIPP takes these
+    // symbol options as they are, the typings do not list them
+    const options: bwipjs.RenderOptions & { eclevel: string; version: string } = {
+      bcid: 'qrcode',
+      text: this.buildUpnQrPayload(order, recipient, amount, purpose, dueDate),
+      eclevel: 'M',
+      version: '15',
+      scale: 3,
+      binarytext: true,
+    };
+    const qrCode = await bwipjs.toBuffer(options);
+
+    return {
+      recipientName: recipient.name,
+      recipientAddress: [recipient.street, recipient.city].filter(Boolean).join(', '),
+      iban: recipient.iban,
+      bic: recipient.bic,
+      reference: order.paymentReference,
+      amount,
+      purpose,
+      dueDate,
+      paid: order.paymentStatus !== PaymentStatus.PENDING,
+      qrCode: `data:image/png;base64,${qrCode.toString('base64')}`,
+    };
+  }
+
+  /**
+   * UPN QR content: 19 fields, each ending in a line feed, followed by the sum of their
+   * lengths, all in ISO-8859-2. Payer IBAN, cash and date fields stay empty.
+   */
+  private buildUpnQrPayload(
+    order: Order,
+    recipient: Recipient,
+    amount: number,
+    purpose: string,
+    dueDate: Date,
+  ): string {
+    const payer = order.billingAddress || order.shippingAddress;
+    const fields = [
+      'UPNQR',
+      '',
+      '',
+      '',
+      '',
+      this.fit(payer ? `${payer.firstName} ${payer.lastName}` : '', 33),
+      this.fit(payer?.street ?? '', 33),
+      this.fit(payer ? `${payer.postalCode} ${payer.city}` : '', 33),
+      String(Math.round(amount * 100)).padStart(11, '0'),
+      '',
+      '',
+      this.PURPOSE_CODE,
+      this.fit(purpose, 42),
+      this.formatDate(dueDate),
+      recipient.iban,
+      (order.paymentReference ?? '').replace(/\s/g, ''),
+      this.fit(recipient.name, 33),
+      this.fit(recipient.street, 33),
+      this.fit(recipient.city, 33),
+    ].map((field) => this.toLatin2(field));
+
+    const checksum = fields.reduce((sum, field) => sum + field.length, 0) + fields.length;
+    return [...fields, String(checksum).padStart(3, '0')].map((field) => `${field}\n`).join('');
+  }
+
+  private async sendInstructions(order: Order): Promise<void> {
+    const to = order.user?.email || order.guestEmail;
+    if (!to) {
+      return;
+    }
+
+    const instructions = await this.buildInstructions(order);
+    const details = [
+      `Recipient: ${instructions.recipientName}, ${instructions.recipientAddress}`,
+      `IBAN: ${instructions.iban}`,
+      ...(instructions.bic ? [`BIC: ${instructions.bic}`] : []),
+      `Amount: ${instructions.amount.toFixed(2)} EUR`,
+      `Reference: ${instructions.reference}`,
+      `Purpose: ${instructions.purpose}`,
+      `Pay by: ${this.formatDate(instructions.dueDate)}`,
+    ];
+
+    await this.mailService.send({
+      to,
+      subject: `Payment details for order ${order.orderNumber}`,
+      text: [
+        `Hello ${order.shippingAddress?.firstName ?? ''},`.replace(' ,', ','),
+        '',
+        `Thank you for order ${order.orderNumber}. Please transfer the amount with these details:`,
+        '',
+        ...details,
+        '',
+        'You can also scan the attached UPN QR code in your banking app.',
+        'We will ship the order once the payment arrives.',
+      ].join('\n'),
+      html: [
+        `<p>Thank you for order ${order.orderNumber}. Please transfer the amount with these details:</p>`,
+        `<p>${details.map((line) => this.escapeHtml(line)).join('<br>')}</p>`,
+        '<p>Or scan this UPN QR code in your banking app:</p>',
+        '<p><img src="cid:upn-qr" alt="UPN QR"></p>',
+        '<p>We will ship the order once the payment arrives.</p>',
+      ].join('\n'),
+      attachments: [
+        {
+          filename: `upn-${order.orderNumber}.png`,
+          content: Buffer.from(instructions.qrCode.split(',')[1], 'base64'),
+          contentType: 'image/png',
+          cid: 'upn-qr',
+        },
+      ],
+    });
+  }
+
+  private assertAwaitingTransfer(order: Order): void {
+    if (order.paymentMethod !== PaymentMethod.BANK_TRANSFER) {
+      throw new BadRequestException('This order is not paid by bank transfer');
+    }
+    if (order.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('The order is cancelled; return the transfer instead');
+    }
+    if (order.paymentStatus !== PaymentStatus.PENDING) {
+      throw new BadRequestException(`Payment is already ${order.paymentStatus}`);
+    }
+  }
+
+  private async registerPayment(
+    order: Order,
+    amount: number,
+    actor: OrderActor | undefined,
+    reason: string,
+  ): Promise<Order> {
+    order.amountPaid = Math.round(amount * 100) / 100;
+    await this.paymentTransactionsService.record({
+      orderId: order.id,
+      type: PaymentTransactionType.CAPTURE,
+      provider: PaymentMethod.BANK_TRANSFER,
+      amount: order.amountPaid,
+      paymentId: order.paymentReference,
+      providerReference: order.paymentReference,
+      providerStatus: 'received',
+      description: reason,
+      actor,
+    });
+    await this.ordersService.transitionStatus(
+      order,
+      {
+        status: order.status === OrderStatus.PENDING ? OrderStatus.PROCESSING : undefined,
+        paymentStatus: PaymentStatus.PAID,
+      },
+      actor,
+      reason,
+    );
+    return this.ordersService.findOne(order.id);
+  }
+
+  private parseStatementCsv(csv: string): Array<{ reference: string; amount: number }> {
+    const lines = csv
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .filter((line) => line.trim());
+    if (lines.length === 0) {
+      return [];
+    }
+
+    // Semicolons first: with commas as separator, decimal commas would split amounts
+    const delimiter = [';', '\t', ','].find((candidate) => lines[0].includes(candidate)) ?? ';';
+    const rows = lines.map((line) => line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')));
+
+    // Take the amount from a column named like one when there is a header row,
+    // otherwise from the first cell that looks like money
+    const amountColumn = rows[0].findIndex((cell) => /znesek|amount|credit|v dobro|priliv/i.test(cell));
+
+    const payments: Array<{ reference: string; amount: number }> = [];
+    for (const cells of rows) {
+      const match = cells.join(' ').match(this.REFERENCE_PATTERN);
+      if (!match) {
+        continue;
+      }
+      const amount =
+        amountColumn >= 0
+          ? this.parseAmount(cells[amountColumn] ?? '')
+          : cells.map((cell) => this.parseAmount(cell)).find((value) => value !== null) ?? null;
+      if (amount === null || amount <= 0) {
+        continue;
+      }
+      payments.push({ reference: `SI${match[1]} ${match[2].replace(/-/g, '')}`, amount });
+    }
+    return payments;
+  }
+
+  /**
+   * "1.234,56", "1234.56" or "1 234,56 EUR"; always with two decimals, which keeps
+   * dates and account numbers out.
+   */
+  private parseAmount(value: string): number | null {
+    const cleaned = value.replace(/\s|€|EUR/gi, '');
+    if (!/^-?\d{1,3}(?:[.,]?\d{3})*[.,]\d{2}$/.test(cleaned)) {
+      return null;
+    }
+    const whole = cleaned.slice(0, -3).replace(/[.,]/g, '');
+    return Number(`${whole}.${cleaned.slice(-2)}`);
+  }
+
+  private async getRecipient(): Promise<Recipient> {
+    const iban = (await this.getSetting('SELLER_IBAN')).replace(/\s/g, '');
+    if (!iban) {
+      throw new BadRequestException('Bank transfer is not available');
+    }
+    return {
+      name: await this.getSetting('SELLER_NAME'),
+      street: await this.getSetting('SELLER_STREET'),
+      city: [await this.getSetting('SELLER_POSTAL_CODE'), await this.getSetting('SELLER_CITY')]
+        .filter(Boolean)
+        .join(' '),
+      iban,
+      bic: (await this.getSetting('SELLER_BIC')) || undefined,
+    };
+  }
+
+  private async getDueDays(): Promise<number> {
+    const value = await this.getSetting('BANK_TRANSFER_DUE_DAYS');
+    const days = Number(value);
+    return value && days > 0 ? days : this.DEFAULT_DUE_DAYS;
+  }
+
+  private async getSetting(key: string): Promise<string> {
+    return (await this.configurationService.get(key)) ?? this.configService.get<string>(key) ?? '';
+  }
+
+  private fit(value: string, length: number): string {
+    return value.trim().slice(0, length);
+  }
+
+  private toLatin2(value: string): string {
+    return [...value]
+      .map((char) => {
+        if (char.charCodeAt(0) < 0x80 || LATIN2_SHARED.includes(char)) {
+          return char;
+        }
+        return LATIN2_CODES[char] ? String.fromCharCode(LATIN2_CODES[char]) : '?';
+      })
+      .join('');
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
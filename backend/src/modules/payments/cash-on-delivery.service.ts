@@ -0,0 +1,112 @@
+import { Injectable, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrdersService } from '../orders/orders.service';
+import { OrderAccessService } from '../orders/order-access.service';
+import { OrderStatus, PaymentMethod } from '../orders/entities/order.entity';
+import { CartService } from '../cart/cart.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { CreateCheckoutIntentDto } from './dto/create-checkout-intent.dto';
+
+export interface CashOnDeliveryTerms {
+  enabled: boolean;
+  fee: number;
+  // Country codes of shipping addresses COD is offered for
+  countries: string[];
+  // Highest order total, fee included, the carrier collects; null for no limit
+  maxOrderValue: number | null;
+}
+
+/**
+ * Cash on delivery ("plačilo po povzetju"). The order is placed without a payment and
+ * the carrier collects the total, plus a fee, from the recipient.
+ */
+@Injectable()
+export class CashOnDeliveryService {
+  constructor(
+    @Inject(forwardRef(() => OrdersService))
+    private ordersService: OrdersService,
+    @Inject(forwardRef(() => OrderAccessService))
+    private orderAccessService: OrderAccessService,
+    private cartService: CartService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  private readonly DEFAULT_FEE = 0;
+
+  // Carriers here only collect cash domestically
+  private readonly DEFAULT_COUNTRIES = ['SI'];
+
+  async getTerms(): Promise<CashOnDeliveryTerms> {
+    const fee = Number(await this.getSetting('COD_FEE'));
+    const maxOrderValue = Number(await this.getSetting('COD_MAX_ORDER_VALUE'));
+    const countries = (await this.getSetting('COD_COUNTRIES'))
+      .split(',')
+      .map((country) => country.trim().toUpperCase())
+      .filter(Boolean);
+
+    return {
+      enabled: (await this.getSetting('COD_ENABLED')) === 'true',
+      fee: fee > 0 ? Math.round(fee * 100) / 100 : this.DEFAULT_FEE,
+      countries: countries.length ? countries : this.DEFAULT_COUNTRIES,
+      maxOrderValue: maxOrderValue > 0 ? maxOrderValue : null,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.getTerms()).enabled;
+  }
+
+  /**
+   * Place the order from the cart with the COD fee added. Nothing has to be waited for,
+   * so the order goes straight to processing.
+   */
+  async checkout(
+    dto: CreateCheckoutIntentDto,
+    userId?: string,
+    guestToken?: string,
+  ): Promise<{ orderId: string; orderNumber: string; accessToken: string | null }> {
+    const terms = await this.getTerms();
+    if (!terms.enabled) {
+      throw new BadRequestException('Cash on delivery is not available');
+    }
+
+    const cart = await this.cartService.getCart(userId, guestToken);
+    if (!cart.items || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    // Same totals as order creation
+    const subtotal = Number(cart.subtotal);
+    const total = subtotal + subtotal * 0.22 + terms.fee;
+    this.assertAllowed(terms, dto.shippingAddress.country, total);
+
+    const order = await this.ordersService.create(dto, userId, guestToken, undefined, undefined, {
+      method: PaymentMethod.CASH_ON_DELIVERY,
+      fee: terms.fee,
+      status: OrderStatus.PROCESSING,
+      statusReason: 'Cash on delivery, to be paid when delivered',
+    });
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      accessToken: order.userId ? null : await this.orderAccessService.createToken(order),
+    };
+  }
+
+  private assertAllowed(terms: CashOnDeliveryTerms, country: string, total: number): void {
+    if (!terms.countries.includes(country.toUpperCase())) {
+      throw new BadRequestException('Cash on delivery is not available for this shipping country');
+    }
+    if (terms.maxOrderValue !== null && total > terms.maxOrderValue) {
+      throw new BadRequestException(
+        `Cash on delivery is only available for orders up to ${terms.maxOrderValue.toFixed(2)} EUR`,
+      );
+    }
+  }
+
+  private async getSetting(key: string): Promise<string> {
+    return (await this.configurationService.get(key)) ?? this.configService.get<string>(key) ?? '';
+  }
+}
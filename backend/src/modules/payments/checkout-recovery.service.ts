@@ -0,0 +1,160 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { MailService } from '../mail/mail.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { OrderActor, getActorName } from '../orders/interfaces/order-actor.interface';
+import { PaidCheckoutLine } from '../orders/interfaces/paid-checkout.interface';
+import { CheckoutFailure, CheckoutFailureStatus } from './entities/checkout-failure.entity';
+import { ProviderPayment } from './providers/payment-provider.interface';
+import { QueryCheckoutFailuresDto } from './dto/query-checkout-failures.dto';
+
+/**
+ * Keeps track of paid checkouts that did not become orders and alerts staff about them.
+ */
+@Injectable()
+export class CheckoutRecoveryService {
+  private readonly logger = new Logger(CheckoutRecoveryService.name);
+
+  constructor(
+    @InjectRepository(CheckoutFailure)
+    private checkoutFailuresRepository: Repository<CheckoutFailure>,
+    private mailService: MailService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  /**
+   * Record a failed order creation. Staff are alerted the first time a payment fails;
+   * later attempts (webhook retries, manual retries) only update the record.
+   */
+  async recordFailure(
+    payment: ProviderPayment,
+    error: unknown,
+    items: PaidCheckoutLine[] | null,
+  ): Promise<CheckoutFailure> {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const existing = await this.findByPaymentIntentId(payment.id);
+
+    if (existing) {
+      existing.attempts += 1;
+      existing.lastError = lastError;
+      existing.items = existing.items ?? items;
+      existing.status = CheckoutFailureStatus.OPEN;
+      return this.checkoutFailuresRepository.save(existing);
+    }
+
+    const failure = await this.checkoutFailuresRepository.save(
+      this.checkoutFailuresRepository.create({
+        paymentIntentId: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        customerEmail: payment.metadata.guestEmail || payment.receiptEmail || undefined,
+        metadata: payment.metadata,
+        items,
+        lastError,
+      }),
+    );
+
+    // The alert must never stand in the way of recording the failure
+    this.sendAlert(failure).catch((alertError) => {
+      this.logger.error(`Failed to send checkout failure alert for ${failure.paymentIntentId}`, alertError);
+    });
+
+    return failure;
+  }
+
+  /**
+   * Close the open failure of a payment once an order exists for it.
+   */
+  async markResolved(paymentIntentId: string, orderId: string, actor?: OrderActor): Promise<void> {
+    await this.checkoutFailuresRepository.update(
+      { paymentIntentId, status: CheckoutFailureStatus.OPEN },
+      {
+        status: CheckoutFailureStatus.RESOLVED,
+        orderId,
+        resolvedAt: new Date(),
+        resolvedById: actor?.id,
+        resolvedByName: getActorName(actor),
+      },
+    );
+  }
+
+  async dismiss(id: string, note: string, actor?: OrderActor): Promise<CheckoutFailure> {
+    const failure = await this.findOne(id);
+    if (failure.status !== CheckoutFailureStatus.OPEN) {
+      throw new BadRequestException('Only open payment issues can be dismissed');
+    }
+
+    this.checkoutFailuresRepository.merge(failure, {
+      status: CheckoutFailureStatus.DISMISSED,
+      resolutionNote: note,
+      resolvedAt: new Date(),
+      resolvedById: actor?.id,
+      resolvedByName: getActorName(actor),
+    });
+    return this.checkoutFailuresRepository.save(failure);
+  }
+
+  async findAll(query: QueryCheckoutFailuresDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+
+    const [data, total] = await this.checkoutFailuresRepository.findAndCount({
+      where: query.status ? { status: query.status } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<CheckoutFailure> {
+    const failure = await this.checkoutFailuresRepository.findOne({ where: { id } });
+    if (!failure) {
+      throw new NotFoundException('Payment issue not found');
+    }
+    return failure;
+  }
+
+  async findByPaymentIntentId(paymentIntentId: string): Promise<CheckoutFailure | null> {
+    return this.checkoutFailuresRepository.findOne({ where: { paymentIntentId } });
+  }
+
+  private async sendAlert(failure: CheckoutFailure): Promise<void> {
+    const to =
+      (await this.configurationService.get('STAFF_ALERT_EMAIL')) ??
+      this.configService.get<string>('STAFF_ALERT_EMAIL') ??
+      this.configService.get<string>('ADMIN_EMAIL');
+    if (!to) {
+      this.logger.warn(`No STAFF_ALERT_EMAIL configured - payment ${failure.paymentIntentId} needs attention`);
+      return;
+    }
+
+    const frontendUrl = (this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173').replace(/\/$/, '');
+    await this.mailService.send({
+      to,
+      subject: `Payment received but no order created (${failure.paymentIntentId})`,
+      text: [
+        'A customer paid, but the order could not be created.',
+        '',
+        `Payment: ${failure.paymentIntentId}`,
+        `Amount: ${Number(failure.amount).toFixed(2)} ${failure.currency.toUpperCase()}`,
+        `Customer: ${failure.customerEmail || failure.metadata.userId || 'unknown'}`,
+        `Error: ${failure.lastError}`,
+        '',
+        `Retry or dismiss it under Payment Issues: ${frontendUrl}/admin/payment-issues`,
+      ].join('\n'),
+    });
+  }
+}
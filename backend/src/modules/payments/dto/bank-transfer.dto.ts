@@ -0,0 +1,10 @@
+import { IsNumber, IsOptional, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MarkBankTransferPaidDto {
+  @ApiPropertyOptional({ description: 'Amount received; the order total when omitted' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+}
@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ConfirmPaymentDto {
+  @ApiProperty({ description: 'Client secret returned with the payment intent' })
+  @IsString()
+  @IsNotEmpty()
+  clientSecret: string;
+
+  @ApiProperty({ example: 'pm_mock_success' })
+  @IsString()
+  @IsNotEmpty()
+  paymentMethod: string;
+}
@@ -0,0 +1,50 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RefundItemDto {
+  @ApiProperty()
+  @IsString()
+  orderItemId: string;
+
+  @ApiProperty({ minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateRefundDto {
+  @ApiPropertyOptional({
+    description: 'Gross amount to refund. Defaults to the sum of the selected items, or everything not yet refunded.',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiPropertyOptional({ type: [RefundItemDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  items?: RefundItemDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'Put the refunded items back into stock', default: false })
+  @IsOptional()
+  @IsBoolean()
+  restock?: boolean;
+}
@@ -0,0 +1,10 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DismissCheckoutFailureDto {
+  @ApiProperty({ description: 'How the payment was dealt with, e.g. "Refunded in Stripe"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
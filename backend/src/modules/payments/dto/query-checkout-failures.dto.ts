@@ -0,0 +1,23 @@
+import { IsOptional, IsNumber, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CheckoutFailureStatus } from '../entities/checkout-failure.entity';
+
+export class QueryCheckoutFailuresDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  page?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: CheckoutFailureStatus })
+  @IsOptional()
+  @IsEnum(CheckoutFailureStatus)
+  status?: CheckoutFailureStatus;
+}
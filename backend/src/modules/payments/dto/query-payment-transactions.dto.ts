@@ -0,0 +1,45 @@
+import { IsOptional, IsString, IsNumber, IsEnum, IsDateString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentTransactionType } from '../entities/payment-transaction.entity';
+
+export class PaymentTransactionsSummaryQueryDto {
+  @ApiPropertyOptional({ description: 'stripe, mock, bank_transfer or cash_on_delivery' })
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @ApiPropertyOptional({ description: 'Transactions on or after this date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Transactions on or before this date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
+
+export class QueryPaymentTransactionsDto extends PaymentTransactionsSummaryQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  page?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: PaymentTransactionType })
+  @IsOptional()
+  @IsEnum(PaymentTransactionType)
+  type?: PaymentTransactionType;
+
+  @ApiPropertyOptional({ description: 'Order number, payment ID or provider reference' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
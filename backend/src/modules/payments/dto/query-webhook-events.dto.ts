@@ -0,0 +1,33 @@
+import { IsOptional, IsString, IsNumber, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventStatus } from '../entities/webhook-event.entity';
+
+export class QueryWebhookEventsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  page?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: WebhookEventStatus })
+  @IsOptional()
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({ description: 'Stripe event type, e.g. payment_intent.succeeded' })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiPropertyOptional({ description: 'Stripe event ID or PaymentIntent ID' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { PaidCheckoutLine } from '../../orders/interfaces/paid-checkout.interface';
+
+export enum CheckoutFailureStatus {
+  OPEN = 'open',
+  RESOLVED = 'resolved', // An order was created after all
+  DISMISSED = 'dismissed', // Handled outside the shop, e.g. refunded by hand
+}
+
+/**
+ * A payment that succeeded but could not be turned into an order.
+ * Kept until staff retry it successfully or dismiss it.
+ */
+@Entity('checkout_failures')
+export class CheckoutFailure {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  paymentIntentId: string;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: CheckoutFailureStatus,
+    default: CheckoutFailureStatus.OPEN,
+  })
+  status: CheckoutFailureStatus;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ default: 'eur' })
+  currency: string;
+
+  @Column({ nullable: true })
+  customerEmail: string;
+
+  // PaymentIntent metadata: cart owner, addresses, notes, shipping method
+  @Column({ type: 'jsonb' })
+  metadata: Record<string, string>;
+
+  // The cart lines that were paid for; retries build the order from these, not the current cart
+  @Column({ type: 'jsonb', nullable: true })
+  items: PaidCheckoutLine[] | null;
+
+  @Column({ type: 'text' })
+  lastError: string;
+
+  @Column({ default: 1 })
+  attempts: number;
+
+  @Column({ nullable: true })
+  orderId: string;
+
+  @Column({ type: 'text', nullable: true })
+  resolutionNote: string;
+
+  @Column({ nullable: true })
+  resolvedById: string;
+
+  @Column({ nullable: true })
+  resolvedByName: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,86 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+
+export enum PaymentTransactionType {
+  AUTHORIZATION = 'authorization', // Money held but not yet taken
+  CAPTURE = 'capture',
+  FAILURE = 'failure', // A declined or failed attempt, no money moved
+  REFUND = 'refund',
+  FEE = 'fee', // Charged by the provider, not the customer
+}
+
+/**
+ * One movement of money (or failed attempt at one) for an order, as the provider
+ * reported it. Amounts are always positive; the type says which way the money went.
+ * Failed checkout attempts come before their order exists and are linked to it once
+ * the payment succeeds.
+ */
+@Entity('payment_transactions')
+@Index(['type', 'providerReference'], { unique: true })
+export class PaymentTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Finance needs the trail even if an order is ever deleted
+  @ManyToOne(() => Order, { nullable: true, onDelete: 'SET NULL' })
+  order: Order | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  orderId: string | null;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: PaymentTransactionType,
+  })
+  type: PaymentTransactionType;
+
+  // Payment provider (stripe, mock) or the offline method: bank_transfer, cash_on_delivery
+  @Index()
+  @Column()
+  provider: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ default: 'eur' })
+  currency: string;
+
+  // The provider's payment the transaction belongs to, e.g. the PaymentIntent
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  paymentId: string | null;
+
+  // The provider's ID of this transaction; recording the same one twice updates it
+  @Column({ type: 'varchar', nullable: true })
+  providerReference: string | null;
+
+  // Status exactly as the provider reported it
+  @Column({ type: 'varchar', nullable: true })
+  providerStatus: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdByName: string | null;
+
+  @Index()
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
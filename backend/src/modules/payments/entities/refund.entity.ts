@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELED = 'canceled',
+}
+
+export interface RefundLineItem {
+  orderItemId: string;
+  quantity: number;
+  amount: number; // Gross amount (incl. VAT) refunded for this line
+}
+
+@Entity('refunds')
+export class Refund {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ default: 'eur' })
+  currency: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING,
+  })
+  status: RefundStatus;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  // The refund ID at the payment provider, whichever one it is
+  @Index({ unique: true })
+  @Column({ nullable: true })
+  stripeRefundId: string;
+
+  // Null for amount-only refunds
+  @Column({ type: 'jsonb', nullable: true })
+  items: RefundLineItem[] | null;
+
+  @Column({ default: false })
+  restocked: boolean;
+
+  // Null when the refund was issued outside the admin (e.g. Stripe dashboard)
+  @Column({ nullable: true })
+  createdById: string;
+
+  @Column({ nullable: true })
+  createdByName: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
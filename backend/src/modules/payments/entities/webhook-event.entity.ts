@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum WebhookEventStatus {
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+  IGNORED = 'ignored', // Event type we do not act on
+}
+
+/**
+ * Every payment provider event we received. The unique event ID is what makes
+ * redeliveries of the same event a no-op.
+ */
+@Entity('webhook_events')
+export class WebhookEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The provider's event ID; named from when Stripe was the only provider
+  @Column({ unique: true })
+  stripeEventId: string;
+
+  // Which provider sent the event, so a replay is translated the same way
+  @Column({ default: 'stripe' })
+  provider: string;
+
+  @Index()
+  @Column()
+  type: string;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookEventStatus,
+    default: WebhookEventStatus.PROCESSING,
+  })
+  status: WebhookEventStatus;
+
+  // PaymentIntent the event refers to, for searching
+  @Index()
+  @Column({ nullable: true })
+  paymentIntentId: string;
+
+  // The full event as the provider sent it, so it can be replayed
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
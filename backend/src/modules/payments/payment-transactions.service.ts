@@ -0,0 +1,257 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, QueryFailedError, SelectQueryBuilder } from 'typeorm';
+import { OrderActor, getActorName } from '../orders/interfaces/order-actor.interface';
+import { PaymentTransaction, PaymentTransactionType } from './entities/payment-transaction.entity';
+import {
+  QueryPaymentTransactionsDto,
+  PaymentTransactionsSummaryQueryDto,
+} from './dto/query-payment-transactions.dto';
+
+export interface PaymentTransactionEntry {
+  orderId?: string | null;
+  type: PaymentTransactionType;
+  provider: string;
+  amount: number;
+  currency?: string;
+  paymentId?: string | null;
+  providerReference?: string | null;
+  providerStatus?: string | null;
+  description?: string | null;
+  actor?: OrderActor;
+}
+
+export interface PaymentTransactionTotals {
+  provider: string;
+  currency: string;
+  authorized: number;
+  captured: number;
+  refunded: number;
+  fees: number;
+  // What stays with the shop: captured minus refunded minus fees
+  net: number;
+  failures: number; // Number of failed attempts
+  transactions: number;
+}
+
+// Refunds and fees in these states never moved any money
+const VOID_STATUSES = ['failed', 'canceled'];
+
+/**
+ * The ledger of everything that happened to customers' money, for the order's
+ * payment history and for reconciling with provider payouts and bank statements.
+ */
+@Injectable()
+export class PaymentTransactionsService {
+  constructor(
+    @InjectRepository(PaymentTransaction)
+    private transactionsRepository: Repository<PaymentTransaction>,
+  ) { }
+
+  /**
+   * Add a transaction to the ledger. One recorded before under the same type and
+   * provider reference, e.g. a refund seen again in a webhook, only gets its status
+   * and order updated.
+   */
+  async record(entry: PaymentTransactionEntry): Promise<PaymentTransaction> {
+    const existing = await this.findRecorded(entry);
+    if (existing) {
+      return this.refresh(existing, entry);
+    }
+
+    try {
+      return await this.transactionsRepository.save(
+        this.transactionsRepository.create({
+          orderId: entry.orderId ?? null,
+          type: entry.type,
+          provider: entry.provider,
+          amount: Math.round(entry.amount * 100) / 100,
+          currency: entry.currency ?? 'eur',
+          paymentId: entry.paymentId ?? null,
+          providerReference: entry.providerReference ?? null,
+          providerStatus: entry.providerStatus ?? null,
+          description: entry.description ?? null,
+          createdById: entry.actor?.id ?? null,
+          createdByName: getActorName(entry.actor) ?? null,
+        }),
+      );
+    } catch (error) {
+      // Recorded at the same moment elsewhere, e.g. by a refund request and its webhook
+      const winner = this.isUniqueViolation(error) ? await this.findRecorded(entry) : null;
+      if (!winner) {
+        throw error;
+      }
+      return this.refresh(winner, entry);
+    }
+  }
+
+  /**
+   * Attach the earlier attempts at a payment to the order it finally created.
+   */
+  async linkPayment(paymentId: string, orderId: string): Promise<void> {
+    await this.transactionsRepository.update({ paymentId, orderId: IsNull() }, { orderId });
+  }
+
+  async findForOrder(orderId: string): Promise<PaymentTransaction[]> {
+    return this.transactionsRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findAll(query: QueryPaymentTransactionsDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+
+    const queryBuilder = this.transactionsRepository
+      .createQueryBuilder('transaction')
+      .leftJoin('transaction.order', 'order')
+      .addSelect(['order.id', 'order.orderNumber']);
+    this.applyFilters(queryBuilder, query);
+
+    if (query.type) {
+      queryBuilder.andWhere('transaction.type = :type', { type: query.type });
+    }
+    if (query.search) {
+      queryBuilder.andWhere(
+        '(order.orderNumber = :search OR transaction.paymentId = :search OR transaction.providerReference = :search)',
+        { search: query.search.trim() },
+      );
+    }
+
+    queryBuilder
+      .orderBy('transaction.createdAt', 'DESC')
+      .addOrderBy('transaction.id', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Totals per provider and currency, to check against payouts and bank statements.
+   */
+  async getSummary(query: PaymentTransactionsSummaryQueryDto): Promise<PaymentTransactionTotals[]> {
+    const queryBuilder = this.transactionsRepository
+      .createQueryBuilder('transaction')
+      .select('transaction.provider', 'provider')
+      .addSelect('transaction.currency', 'currency')
+      .addSelect('transaction.type', 'type')
+      .addSelect('transaction.providerStatus', 'providerStatus')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('SUM(transaction.amount)', 'amount')
+      .groupBy('transaction.provider')
+      .addGroupBy('transaction.currency')
+      .addGroupBy('transaction.type')
+      .addGroupBy('transaction.providerStatus');
+    this.applyFilters(queryBuilder, query);
+
+    const rows: {
+      provider: string;
+      currency: string;
+      type: PaymentTransactionType;
+      providerStatus: string | null;
+      count: string;
+      amount: string;
+    }[] = await queryBuilder.getRawMany();
+
+    const totals = new Map<string, PaymentTransactionTotals>();
+    for (const row of rows) {
+      const key = `${row.provider}:${row.currency}`;
+      const entry = totals.get(key) ?? {
+        provider: row.provider,
+        currency: row.currency,
+        authorized: 0,
+        captured: 0,
+        refunded: 0,
+        fees: 0,
+        net: 0,
+        failures: 0,
+        transactions: 0,
+      };
+      totals.set(key, entry);
+
+      const count = Number(row.count);
+      const amount = VOID_STATUSES.includes(row.providerStatus ?? '') ? 0 : Number(row.amount);
+      entry.transactions += count;
+
+      switch (row.type) {
+        case PaymentTransactionType.AUTHORIZATION:
+          entry.authorized += amount;
+          break;
+        case PaymentTransactionType.CAPTURE:
+          entry.captured += amount;
+          break;
+        case PaymentTransactionType.REFUND:
+          entry.refunded += amount;
+          break;
+        case PaymentTransactionType.FEE:
+          entry.fees += amount;
+          break;
+        case PaymentTransactionType.FAILURE:
+          entry.failures += count;
+          break;
+      }
+    }
+
+    return [...totals.values()]
+      .map((entry) => ({
+        ...entry,
+        authorized: this.roundAmount(entry.authorized),
+        captured: this.roundAmount(entry.captured),
+        refunded: this.roundAmount(entry.refunded),
+        fees: this.roundAmount(entry.fees),
+        net: this.roundAmount(entry.captured - entry.refunded - entry.fees),
+      }))
+      .sort((a, b) => a.provider.localeCompare(b.provider) || a.currency.localeCompare(b.currency));
+  }
+
+  private applyFilters(
+    queryBuilder: SelectQueryBuilder<PaymentTransaction>,
+    query: PaymentTransactionsSummaryQueryDto,
+  ): void {
+    if (query.provider) {
+      queryBuilder.andWhere('transaction.provider = :provider', { provider: query.provider });
+    }
+    // Both ends are whole days, so dateTo includes the transactions of that day
+    if (query.dateFrom) {
+      queryBuilder.andWhere('transaction.createdAt >= CAST(:dateFrom AS date)', { dateFrom: query.dateFrom });
+    }
+    if (query.dateTo) {
+      queryBuilder.andWhere('transaction.createdAt < CAST(:dateTo AS date) + 1', { dateTo: query.dateTo });
+    }
+  }
+
+  private async findRecorded(entry: PaymentTransactionEntry): Promise<PaymentTransaction | null> {
+    if (!entry.providerReference) {
+      return null;
+    }
+    return this.transactionsRepository.findOne({
+      where: { type: entry.type, providerReference: entry.providerReference },
+    });
+  }
+
+  private async refresh(transaction: PaymentTransaction, entry: PaymentTransactionEntry): Promise<PaymentTransaction> {
+    transaction.providerStatus = entry.providerStatus ?? transaction.providerStatus;
+    transaction.orderId = transaction.orderId ?? entry.orderId ?? null;
+    return this.transactionsRepository.save(transaction);
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return error instanceof QueryFailedError && (error as QueryFailedError & { code?: string }).code === '23505';
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
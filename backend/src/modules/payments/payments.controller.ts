@@ -1,27 +1,65 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   Param,
+  Query,
   Headers,
   UseGuards,
   RawBodyRequest,
   Req,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Request } from 'express';
-import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiHeader, ApiQuery, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
+import { BankTransferService } from './bank-transfer.service';
+import { CashOnDeliveryService } from './cash-on-delivery.service';
 import { OptionalAuthGuard } from '../auth/guards/optional-auth.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+import { OrderActor } from '../orders/interfaces/order-actor.interface';
 import { CreateCheckoutIntentDto } from './dto/create-checkout-intent.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { QueryWebhookEventsDto } from './dto/query-webhook-events.dto';
+import { QueryCheckoutFailuresDto } from './dto/query-checkout-failures.dto';
+import { DismissCheckoutFailureDto } from './dto/dismiss-checkout-failure.dto';
+import { MarkBankTransferPaidDto } from './dto/bank-transfer.dto';
+import { ConfirmPaymentDto } from './dto/confirm-payment.dto';
+import {
+  QueryPaymentTransactionsDto,
+  PaymentTransactionsSummaryQueryDto,
+} from './dto/query-payment-transactions.dto';
+import { CheckoutRecoveryService } from './checkout-recovery.service';
+import { PaymentTransactionsService } from './payment-transactions.service';
+import { PaymentProviderName } from './providers/payment-provider.interface';
 
 interface AuthenticatedRequest extends Request {
-  user?: { id: string };
+  user?: OrderActor;
 }
 
 @ApiTags('payments')
 @Controller('payments')
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) { }
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly checkoutRecoveryService: CheckoutRecoveryService,
+    private readonly bankTransferService: BankTransferService,
+    private readonly cashOnDeliveryService: CashOnDeliveryService,
+    private readonly paymentTransactionsService: PaymentTransactionsService,
+  ) { }
+
+  @Get('methods')
+  @ApiOperation({ summary: 'List the payment methods offered at checkout' })
+  getPaymentMethods() {
+    return this.paymentsService.getPaymentMethods();
+  }
 
   @Post('create-checkout-intent')
   @UseGuards(OptionalAuthGuard)
@@ -37,6 +75,102 @@ export class PaymentsController {
     return this.paymentsService.createCheckoutIntent(dto, userId, guestToken);
   }
 
+  @Get('cash-on-delivery')
+  @ApiOperation({ summary: 'Get the cash on delivery fee and the countries and order values it is offered for' })
+  getCashOnDeliveryTerms() {
+    return this.cashOnDeliveryService.getTerms();
+  }
+
+  @Post('cash-on-delivery/checkout')
+  @UseGuards(OptionalAuthGuard)
+  @ApiBearerAuth()
+  @ApiHeader({ name: 'x-guest-token', required: false })
+  @ApiOperation({ summary: 'Place the order from the cart, to be paid in cash on delivery' })
+  cashOnDeliveryCheckout(
+    @Body() dto: CreateCheckoutIntentDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const guestToken = req.headers['x-guest-token'] as string | undefined;
+    return this.cashOnDeliveryService.checkout(dto, req.user?.id, guestToken);
+  }
+
+  @Post('bank-transfer/checkout')
+  @UseGuards(OptionalAuthGuard)
+  @ApiBearerAuth()
+  @ApiHeader({ name: 'x-guest-token', required: false })
+  @ApiOperation({ summary: 'Place the order from the cart, to be paid by bank transfer' })
+  bankTransferCheckout(
+    @Body() dto: CreateCheckoutIntentDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const guestToken = req.headers['x-guest-token'] as string | undefined;
+    return this.bankTransferService.checkout(dto, req.user?.id, guestToken);
+  }
+
+  @Get('bank-transfer/orders/:orderNumber')
+  @UseGuards(OptionalAuthGuard)
+  @ApiBearerAuth()
+  @ApiHeader({ name: 'x-order-token', required: false, description: 'Signed access token for guest orders' })
+  @ApiQuery({ name: 'token', required: false, description: 'Signed access token for guest orders' })
+  @ApiOperation({ summary: 'Get the bank transfer details and UPN QR code of an order' })
+  getBankTransferInstructions(
+    @Param('orderNumber') orderNumber: string,
+    @Req() req: AuthenticatedRequest,
+    @Headers('x-order-token') headerToken: string | undefined,
+    @Query('token') queryToken: string | undefined,
+  ) {
+    return this.bankTransferService.getInstructions(
+      orderNumber,
+      req.user?.id,
+      headerToken || queryToken,
+      req.user?.role,
+    );
+  }
+
+  @Post('bank-transfer/orders/:orderId/mark-paid')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Record a received bank transfer for an order (admin only)' })
+  markBankTransferPaid(
+    @Param('orderId') orderId: string,
+    @Body() dto: MarkBankTransferPaidDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.bankTransferService.markPaid(orderId, dto, req.user);
+  }
+
+  @Post('bank-transfer/statements')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark bank transfer orders paid from a bank statement CSV, matched on reference (admin only)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      fileFilter: (req, file, callback) => {
+        if (!file.originalname.match(/\.(csv|txt)$/i)) {
+          return callback(new BadRequestException('Only CSV files are allowed'), false);
+        }
+        callback(null, true);
+      },
+      limits: { fileSize: 5 * 1024 * 1024 },
+    }),
+  )
+  importBankStatement(@UploadedFile() file: Express.Multer.File, @Req() req: AuthenticatedRequest) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    return this.bankTransferService.importStatement(file.buffer.toString('utf-8'), req.user);
+  }
+
+  @Post('payment-intents/:id/confirm')
+  @ApiOperation({ summary: 'Confirm a payment with a mock payment method (mock provider only)' })
+  confirmPayment(@Param('id') id: string, @Body() dto: ConfirmPaymentDto) {
+    return this.paymentsService.confirmPayment(id, dto.clientSecret, dto.paymentMethod);
+  }
+
   @Post('create-payment-intent/:orderId')
   @UseGuards(OptionalAuthGuard)
   @ApiBearerAuth()
@@ -45,13 +179,123 @@ export class PaymentsController {
     return this.paymentsService.createPaymentIntent(orderId);
   }
 
+  @Get('orders/:orderId/refunds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List refunds of an order (admin only)' })
+  getRefunds(@Param('orderId') orderId: string) {
+    return this.paymentsService.getRefunds(orderId);
+  }
+
+  @Post('orders/:orderId/refunds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refund an order fully, by line items or by amount (admin only)' })
+  refundOrder(
+    @Param('orderId') orderId: string,
+    @Body() dto: CreateRefundDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentsService.refundOrder(orderId, dto, req.user);
+  }
+
+  @Get('orders/:orderId/transactions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the payment transactions of an order (admin only)' })
+  getOrderTransactions(@Param('orderId') orderId: string) {
+    return this.paymentTransactionsService.findForOrder(orderId);
+  }
+
+  @Get('transactions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List payment transactions across orders (admin only)' })
+  getTransactions(@Query() query: QueryPaymentTransactionsDto) {
+    return this.paymentTransactionsService.findAll(query);
+  }
+
+  @Get('transactions/summary')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Captured, refunded and fee totals per provider for reconciliation (admin only)' })
+  getTransactionSummary(@Query() query: PaymentTransactionsSummaryQueryDto) {
+    return this.paymentTransactionsService.getSummary(query);
+  }
+
+  @Get('webhook-events')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List received payment provider webhook events (admin only)' })
+  getWebhookEvents(@Query() query: QueryWebhookEventsDto) {
+    return this.paymentsService.findWebhookEvents(query);
+  }
+
+  @Get('webhook-events/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a received webhook event including its payload (admin only)' })
+  getWebhookEvent(@Param('id') id: string) {
+    return this.paymentsService.findWebhookEvent(id);
+  }
+
+  @Post('webhook-events/:id/replay')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Process a stored webhook event again (admin only)' })
+  replayWebhookEvent(@Param('id') id: string) {
+    return this.paymentsService.replayWebhookEvent(id);
+  }
+
+  @Get('checkout-failures')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List paid checkouts that could not be turned into orders (admin only)' })
+  getCheckoutFailures(@Query() query: QueryCheckoutFailuresDto) {
+    return this.checkoutRecoveryService.findAll(query);
+  }
+
+  @Post('checkout-failures/:id/retry')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Try again to create the order for a failed checkout (admin only)' })
+  retryCheckoutFailure(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.paymentsService.retryCheckoutFailure(id, req.user);
+  }
+
+  @Post('checkout-failures/:id/dismiss')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Close a failed checkout that was handled by hand (admin only)' })
+  dismissCheckoutFailure(
+    @Param('id') id: string,
+    @Body() dto: DismissCheckoutFailureDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.checkoutRecoveryService.dismiss(id, dto.note, req.user);
+  }
+
   @Post('webhook')
   @ApiOperation({ summary: 'Stripe webhook handler' })
-  handleWebhook(
-    @Headers('stripe-signature') signature: string,
-    @Req() req: RawBodyRequest<Request>,
-  ) {
-    return this.paymentsService.handleWebhook(signature, req.rawBody!);
+  handleWebhook(@Req() req: RawBodyRequest<Request>) {
+    return this.paymentsService.handleWebhook(PaymentProviderName.STRIPE, req.headers, req.rawBody!);
+  }
+
+  @Post('webhook/:provider')
+  @ApiOperation({ summary: 'Webhook handler of a payment provider' })
+  handleProviderWebhook(@Param('provider') provider: string, @Req() req: RawBodyRequest<Request>) {
+    return this.paymentsService.handleWebhook(provider, req.headers, req.rawBody!);
   }
 }
 
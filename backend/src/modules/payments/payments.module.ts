@@ -1,16 +1,47 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { PaymentsService } from './payments.service';
 import { PaymentsController } from './payments.controller';
 import { OrdersModule } from '../orders/orders.module';
 import { CartModule } from '../cart/cart.module';
+import { ProductsModule } from '../products/products.module';
 import { ConfigurationModule } from '../configuration/configuration.module';
+import { Refund } from './entities/refund.entity';
+import { WebhookEvent } from './entities/webhook-event.entity';
+import { CheckoutFailure } from './entities/checkout-failure.entity';
+import { PaymentTransaction } from './entities/payment-transaction.entity';
+import { CheckoutRecoveryService } from './checkout-recovery.service';
+import { BankTransferService } from './bank-transfer.service';
+import { CashOnDeliveryService } from './cash-on-delivery.service';
+import { PaymentTransactionsService } from './payment-transactions.service';
+import { PaymentProvidersService } from './providers/payment-providers.service';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
-  imports: [ConfigModule, forwardRef(() => OrdersModule), CartModule, ConfigurationModule],
-  providers: [PaymentsService],
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forFeature([Refund, WebhookEvent, CheckoutFailure, PaymentTransaction]),
+    forwardRef(() => OrdersModule),
+    CartModule,
+    ProductsModule,
+    ConfigurationModule,
+    MailModule,
+  ],
+  providers: [
+    PaymentsService,
+    CheckoutRecoveryService,
+    BankTransferService,
+    CashOnDeliveryService,
+    PaymentTransactionsService,
+    PaymentProvidersService,
+    StripePaymentProvider,
+    MockPaymentProvider,
+  ],
   controllers: [PaymentsController],
-  exports: [PaymentsService],
+  exports: [PaymentsService, PaymentTransactionsService],
 })
 export class PaymentsModule { }
 
@@ -0,0 +1,315 @@
+import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator, QueryFailedError } from 'typeorm';
+import { OrdersService } from '../orders/orders.service';
+import { CartService } from '../cart/cart.service';
+import { StockReservationsService } from '../products/stock-reservations.service';
+import { PaymentsService } from './payments.service';
+import { Order, PaymentStatus } from '../orders/entities/order.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { WebhookEvent, WebhookEventStatus } from './entities/webhook-event.entity';
+import { CheckoutRecoveryService } from './checkout-recovery.service';
+import { BankTransferService } from './bank-transfer.service';
+import { CashOnDeliveryService } from './cash-on-delivery.service';
+import { PaymentProvidersService } from './providers/payment-providers.service';
+import { PaymentTransactionsService } from './payment-transactions.service';
+import { PaymentEvent, PaymentEventType, PaymentProviderName } from './providers/payment-provider.interface';
+
+function duplicateKeyError() {
+  return new QueryFailedError('INSERT', [], Object.assign(new Error('duplicate key'), { code: '23505' }));
+}
+
+describe('PaymentsService webhooks', () => {
+  let service: PaymentsService;
+  let webhookEvents: {
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    findOne: jest.Mock;
+  };
+  let stockReservationsService: { release: jest.Mock };
+  let provider: { name: PaymentProviderName; parseWebhook: jest.Mock; toEvent: jest.Mock };
+  let event: PaymentEvent;
+
+  function storedEvent(overrides: Partial<WebhookEvent> = {}): WebhookEvent {
+    return {
+      id: 'event-1',
+      stripeEventId: event.id,
+      provider: PaymentProviderName.MOCK,
+      type: event.type,
+      status: WebhookEventStatus.PROCESSING,
+      payload: event.payload,
+      attempts: 0,
+      lastError: null,
+      processedAt: null,
+      ...overrides,
+    } as WebhookEvent;
+  }
+
+  beforeEach(async () => {
+    event = {
+      id: 'evt_1',
+      type: 'payment.canceled',
+      kind: PaymentEventType.PAYMENT_CANCELED,
+      paymentId: 'mock_pi_1',
+      payment: { id: 'mock_pi_1' } as PaymentEvent['payment'],
+      payload: { id: 'evt_1' },
+    };
+    webhookEvents = {
+      create: jest.fn((values) => ({ attempts: 0, ...values })),
+      save: jest.fn(async (record) => ({ ...record })),
+      update: jest.fn().mockResolvedValue({ affected: 0 }),
+      findOne: jest.fn(),
+    };
+    stockReservationsService = { release: jest.fn() };
+    provider = {
+      name: PaymentProviderName.MOCK,
+      parseWebhook: jest.fn(async () => event),
+      toEvent: jest.fn(() => event),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: OrdersService, useValue: {} },
+        { provide: CartService, useValue: {} },
+        { provide: getRepositoryToken(Refund), useValue: {} },
+        { provide: getRepositoryToken(WebhookEvent), useValue: webhookEvents },
+        { provide: CheckoutRecoveryService, useValue: {} },
+        { provide: StockReservationsService, useValue: stockReservationsService },
+        { provide: BankTransferService, useValue: {} },
+        { provide: CashOnDeliveryService, useValue: {} },
+        { provide: PaymentProvidersService, useValue: { get: jest.fn(() => provider), forWebhook: jest.fn(async () => provider) } },
+        { provide: PaymentTransactionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentsService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('handleWebhook', () => {
+    it('records a new event and handles it once', async () => {
+      await service.handleWebhook('mock', {}, Buffer.from('{}'));
+
+      expect(webhookEvents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ stripeEventId: 'evt_1', provider: 'mock', status: WebhookEventStatus.PROCESSING }),
+      );
+      expect(stockReservationsService.release).toHaveBeenCalledWith('mock_pi_1');
+      expect(webhookEvents.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED, attempts: 1, lastError: null }),
+      );
+    });
+
+    it('does nothing for a redelivery of an event that was handled', async () => {
+      webhookEvents.save.mockRejectedValueOnce(duplicateKeyError());
+
+      await service.handleWebhook('mock', {}, Buffer.from('{}'));
+
+      // Only a failed or abandoned attempt may be claimed again
+      expect(webhookEvents.update).toHaveBeenCalledWith(
+        [
+          { stripeEventId: 'evt_1', status: WebhookEventStatus.FAILED },
+          { stripeEventId: 'evt_1', status: WebhookEventStatus.PROCESSING, updatedAt: expect.any(FindOperator) },
+        ],
+        { status: WebhookEventStatus.PROCESSING },
+      );
+      expect(stockReservationsService.release).not.toHaveBeenCalled();
+      expect(webhookEvents.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('takes over a redelivery of an event that failed before', async () => {
+      webhookEvents.save.mockRejectedValueOnce(duplicateKeyError());
+      webhookEvents.update.mockResolvedValue({ affected: 1 });
+      webhookEvents.findOne.mockResolvedValue(storedEvent({ attempts: 1, lastError: 'timeout' }));
+
+      await service.handleWebhook('mock', {}, Buffer.from('{}'));
+
+      expect(stockReservationsService.release).toHaveBeenCalledTimes(1);
+      expect(webhookEvents.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED, attempts: 2, lastError: null }),
+      );
+    });
+
+    it('takes over an attempt that was cut off while processing', async () => {
+      webhookEvents.save.mockRejectedValueOnce(duplicateKeyError());
+      webhookEvents.update.mockResolvedValue({ affected: 1 });
+      webhookEvents.findOne.mockResolvedValue(storedEvent({ attempts: 1 }));
+
+      await service.handleWebhook('mock', {}, Buffer.from('{}'));
+
+      const [, stalled] = webhookEvents.update.mock.calls[0][0];
+      const cutoff: Date = stalled.updatedAt.value;
+      expect(Date.now() - cutoff.getTime()).toBeGreaterThanOrEqual(10 * 60 * 1000);
+      expect(stockReservationsService.release).toHaveBeenCalledTimes(1);
+      expect(webhookEvents.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED, attempts: 2 }),
+      );
+    });
+
+    it('passes other database errors on', async () => {
+      webhookEvents.save.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.handleWebhook('mock', {}, Buffer.from('{}'))).rejects.toThrow('connection lost');
+      expect(stockReservationsService.release).not.toHaveBeenCalled();
+    });
+
+    it('stores a failure and fails the delivery so the provider retries it', async () => {
+      stockReservationsService.release.mockRejectedValue(new Error('deadlock'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(service.handleWebhook('mock', {}, Buffer.from('{}'))).rejects.toThrow(
+        InternalServerErrorException,
+      );
+      expect(webhookEvents.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookEventStatus.FAILED, lastError: 'deadlock' }),
+      );
+    });
+
+    it('marks events it does not act on as ignored', async () => {
+      event.kind = null;
+
+      await service.handleWebhook('mock', {}, Buffer.from('{}'));
+
+      expect(webhookEvents.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookEventStatus.IGNORED }),
+      );
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('runs a stored event through the handlers again', async () => {
+      webhookEvents.findOne.mockResolvedValue(
+        storedEvent({ status: WebhookEventStatus.PROCESSED, attempts: 1 }),
+      );
+      webhookEvents.update.mockResolvedValue({ affected: 1 });
+
+      const replayed = await service.replayWebhookEvent('event-1');
+
+      expect(webhookEvents.update).toHaveBeenCalledWith(
+        [
+          { id: 'event-1', status: expect.any(FindOperator) },
+          { id: 'event-1', status: WebhookEventStatus.PROCESSING, updatedAt: expect.any(FindOperator) },
+        ],
+        { status: WebhookEventStatus.PROCESSING },
+      );
+      expect(provider.toEvent).toHaveBeenCalledWith(event.payload);
+      expect(stockReservationsService.release).toHaveBeenCalledWith('mock_pi_1');
+      expect(replayed).toEqual(expect.objectContaining({ status: WebhookEventStatus.PROCESSED, attempts: 2 }));
+    });
+
+    it('refuses an event that is being processed right now', async () => {
+      webhookEvents.findOne.mockResolvedValue(storedEvent());
+
+      await expect(service.replayWebhookEvent('event-1')).rejects.toThrow(BadRequestException);
+      expect(stockReservationsService.release).not.toHaveBeenCalled();
+      expect(webhookEvents.save).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('PaymentsService refunds', () => {
+  let service: PaymentsService;
+  let order: Order;
+  let refunds: { find: jest.Mock; findOne: jest.Mock; create: jest.Mock; save: jest.Mock; merge: jest.Mock };
+  let ordersService: { findOne: jest.Mock; restockItems: jest.Mock };
+  let provider: { name: PaymentProviderName; label: string; createRefund: jest.Mock };
+
+  beforeEach(async () => {
+    order = {
+      id: 'order-1',
+      orderNumber: '2026-000001',
+      paymentIntentId: 'mock_pi_1',
+      paymentStatus: PaymentStatus.PAID,
+      subtotal: 20,
+      tax: 4.4,
+      total: 24.4,
+      items: [{ id: 'mug', productName: 'Mug', quantity: 2, unitPrice: 10 }] as OrderItem[],
+    } as Order;
+    refunds = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      create: jest.fn((values) => values),
+      save: jest.fn(async (values) => values),
+      merge: jest.fn((target, values) => Object.assign(target, values)),
+    };
+    ordersService = { findOne: jest.fn(async () => order), restockItems: jest.fn() };
+    provider = {
+      name: PaymentProviderName.MOCK,
+      label: 'Mock payments',
+      createRefund: jest.fn().mockResolvedValue({
+        id: 'mock_re_1',
+        currency: 'eur',
+        status: RefundStatus.SUCCEEDED,
+        providerStatus: RefundStatus.SUCCEEDED,
+      }),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: OrdersService, useValue: ordersService },
+        { provide: CartService, useValue: {} },
+        { provide: getRepositoryToken(Refund), useValue: refunds },
+        { provide: getRepositoryToken(WebhookEvent), useValue: {} },
+        { provide: CheckoutRecoveryService, useValue: {} },
+        { provide: StockReservationsService, useValue: {} },
+        { provide: BankTransferService, useValue: {} },
+        { provide: CashOnDeliveryService, useValue: {} },
+        { provide: PaymentProvidersService, useValue: { forPayment: jest.fn(() => provider) } },
+        { provide: PaymentTransactionsService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentsService);
+  });
+
+  describe('refundOrder', () => {
+    it('completes the refund its webhook has already recorded', async () => {
+      const recorded = {
+        id: 'refund-1',
+        orderId: order.id,
+        amount: 12.2,
+        status: RefundStatus.SUCCEEDED,
+        reason: 'Refunded in Mock payments',
+        stripeRefundId: 'mock_re_1',
+        items: null,
+        restocked: false,
+        createdByName: 'Mock payments',
+      } as Refund;
+      refunds.save.mockRejectedValueOnce(duplicateKeyError());
+      refunds.findOne.mockResolvedValue(recorded);
+
+      const refund = await service.refundOrder(
+        order.id,
+        { items: [{ orderItemId: 'mug', quantity: 1 }], restock: true, reason: 'Broken' },
+        { id: 'admin-1', firstName: 'Ana', lastName: 'Novak' },
+      );
+
+      expect(refunds.findOne).toHaveBeenCalledWith({ where: { stripeRefundId: 'mock_re_1' } });
+      expect(ordersService.restockItems).toHaveBeenCalledWith([{ item: order.items[0], quantity: 1 }]);
+      expect(refund).toBe(recorded);
+      expect(refund).toEqual(
+        expect.objectContaining({
+          reason: 'Broken',
+          items: [{ orderItemId: 'mug', quantity: 1, amount: 12.2 }],
+          restocked: true,
+          createdById: 'admin-1',
+          createdByName: 'Ana Novak',
+        }),
+      );
+    });
+
+    it('passes other database errors on', async () => {
+      refunds.save.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.refundOrder(order.id, {})).rejects.toThrow('connection lost');
+      expect(refunds.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
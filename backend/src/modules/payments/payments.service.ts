@@ -1,45 +1,80 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import Stripe from 'stripe';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  InternalServerErrorException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, QueryFailedError, FindOptionsWhere, In, LessThan } from 'typeorm';
 import { OrdersService } from '../orders/orders.service';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../orders/entities/order.entity';
+import { OrderActor, getActorName } from '../orders/interfaces/order-actor.interface';
+import { PaidCheckoutLine } from '../orders/interfaces/paid-checkout.interface';
+import { canTransitionOrderStatus } from '../orders/order-status.transitions';
 import { CartService } from '../cart/cart.service';
-import { ConfigurationService } from '../configuration/configuration.service';
+import { StockReservationsService } from '../products/stock-reservations.service';
 import { CreateCheckoutIntentDto } from './dto/create-checkout-intent.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { QueryWebhookEventsDto } from './dto/query-webhook-events.dto';
+import { Refund, RefundStatus, RefundLineItem } from './entities/refund.entity';
+import { WebhookEvent, WebhookEventStatus } from './entities/webhook-event.entity';
+import { CheckoutFailure, CheckoutFailureStatus } from './entities/checkout-failure.entity';
+import { CheckoutRecoveryService } from './checkout-recovery.service';
+import { BankTransferService } from './bank-transfer.service';
+import { CashOnDeliveryService } from './cash-on-delivery.service';
+import { PaymentProvidersService } from './providers/payment-providers.service';
+import { PaymentTransactionsService } from './payment-transactions.service';
+import { PaymentTransactionType } from './entities/payment-transaction.entity';
+import {
+  PaymentProvider,
+  PaymentProviderName,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  PaymentEvent,
+  PaymentEventType,
+} from './providers/payment-provider.interface';
+
+// What cancelling an order does to its payment; a manual refund is paid back outside any provider
+export type PaymentVoidAction = 'none' | 'cancel' | 'refund' | 'manual_refund';
+
+// An event still processing after this long was cut off by a crash or deploy
+const WEBHOOK_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
 
 @Injectable()
 export class PaymentsService {
-  private stripe: Stripe | null = null;
-  private currentApiKey: string | null = null;
-
   constructor(
-    private configService: ConfigService,
+    @Inject(forwardRef(() => OrdersService))
     private ordersService: OrdersService,
     private cartService: CartService,
-    private readonly configurationService: ConfigurationService,
+    @InjectRepository(Refund)
+    private refundsRepository: Repository<Refund>,
+    @InjectRepository(WebhookEvent)
+    private webhookEventsRepository: Repository<WebhookEvent>,
+    private checkoutRecoveryService: CheckoutRecoveryService,
+    private stockReservationsService: StockReservationsService,
+    private bankTransferService: BankTransferService,
+    private cashOnDeliveryService: CashOnDeliveryService,
+    private paymentProvidersService: PaymentProvidersService,
+    private paymentTransactionsService: PaymentTransactionsService,
   ) { }
 
-  private async getStripe(): Promise<Stripe> {
-    // 1. Try DB
-    let secretKey = await this.configurationService.get('STRIPE_SECRET_KEY');
-
-    // 2. Fallback to Env
-    if (!secretKey) {
-      secretKey = this.configService.get<string>('STRIPE_SECRET_KEY') || null;
-    }
-
-    if (!secretKey) {
-      throw new BadRequestException('Stripe Secret Key not configured');
+  /**
+   * Payment methods offered at checkout. Card payments go through the active provider; bank transfer
+   * needs the shop's IBAN. Cash on delivery further depends on the address and total,
+   * see its terms.
+   */
+  async getPaymentMethods(): Promise<PaymentMethod[]> {
+    const methods = [PaymentMethod.CARD];
+    if (await this.bankTransferService.isAvailable()) {
+      methods.push(PaymentMethod.BANK_TRANSFER);
     }
-
-    // Re-initialize if key changed or stripe instance missing
-    if (!this.stripe || this.currentApiKey !== secretKey) {
-      this.stripe = new Stripe(secretKey, {
-        apiVersion: '2023-10-16',
-      });
-      this.currentApiKey = secretKey;
+    if (await this.cashOnDeliveryService.isAvailable()) {
+      methods.push(PaymentMethod.CASH_ON_DELIVERY);
     }
-
-    return this.stripe;
+    return methods;
   }
 
   /**
@@ -50,8 +85,8 @@ export class PaymentsService {
     dto: CreateCheckoutIntentDto,
     userId?: string,
     guestToken?: string,
-  ): Promise<{ clientSecret: string; paymentIntentId: string; amount: number }> {
-    const stripe = await this.getStripe();
+  ): Promise<{ clientSecret: string; paymentIntentId: string; amount: number; provider: PaymentProviderName }> {
+    const provider = await this.paymentProvidersService.getActive();
     const cart = await this.cartService.getCart(userId, guestToken);
 
     if (!cart.items || cart.items.length === 0) {
@@ -63,7 +98,6 @@ export class PaymentsService {
     const tax = subtotal * 0.22; // 22% VAT (Slovenia)
     const shippingCost = 0; // Free shipping for now
     const total = subtotal + tax + shippingCost;
-    const amountInCents = Math.round(total * 100);
 
     // Store checkout data in metadata for order creation after payment
     const checkoutData = {
@@ -79,38 +113,81 @@ export class PaymentsService {
       total: total.toFixed(2),
     };
 
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: amountInCents,
+    const payment = await provider.createPayment({
+      amount: total,
       currency: 'eur',
-      automatic_payment_methods: {
-        enabled: true,
-      },
       metadata: checkoutData,
     });
 
+    // Hold the stock until the payment succeeds, fails or the reservation times out
+    try {
+      await this.stockReservationsService.reserve(
+        payment.id,
+        cart.id,
+        cart.items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          price: Number(item.price),
+        })),
+      );
+    } catch (error) {
+      await provider.cancelPayment(payment.id).catch((cancelError) => {
+        console.error(`Failed to cancel payment ${payment.id}:`, cancelError);
+      });
+      throw error;
+    }
+
     return {
-      clientSecret: paymentIntent.client_secret!,
-      paymentIntentId: paymentIntent.id,
+      clientSecret: payment.clientSecret!,
+      paymentIntentId: payment.id,
       amount: total,
+      provider: provider.name,
     };
   }
 
+  /**
+   * Whether the client secret belongs to the payment intent. Stripe hands both to the
+   * browser on the return URL, so together they prove the caller went through checkout.
+   */
+  async isClientSecretValid(paymentIntentId: string, clientSecret: string): Promise<boolean> {
+    try {
+      const payment = await this.paymentProvidersService.forPayment(paymentIntentId).retrievePayment(paymentIntentId);
+      return payment.clientSecret === clientSecret;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Attempt a payment with a method the browser collected. Only the mock provider's
+   * checkout goes through here; Stripe.js confirms card payments with Stripe directly.
+   */
+  async confirmPayment(paymentIntentId: string, clientSecret: string, paymentMethod: string): Promise<ProviderPayment> {
+    if (!(await this.isClientSecretValid(paymentIntentId, clientSecret))) {
+      throw new NotFoundException('Payment not found');
+    }
+    return this.paymentProvidersService.forPayment(paymentIntentId).confirmPayment(paymentIntentId, paymentMethod);
+  }
+
   /**
    * Legacy method - create payment intent for existing order.
    * Kept for backwards compatibility.
    */
   async createPaymentIntent(orderId: string): Promise<{ clientSecret: string }> {
-    const stripe = await this.getStripe();
     const order = await this.ordersService.findOne(orderId);
 
     if (order.paymentIntentId) {
       // Return existing payment intent
-      const existingIntent = await stripe.paymentIntents.retrieve(order.paymentIntentId);
-      return { clientSecret: existingIntent.client_secret! };
+      const existingPayment = await this.paymentProvidersService
+        .forPayment(order.paymentIntentId)
+        .retrievePayment(order.paymentIntentId);
+      return { clientSecret: existingPayment.clientSecret! };
     }
 
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(order.total * 100), // Convert to cents
+    const provider = await this.paymentProvidersService.getActive();
+    const payment = await provider.createPayment({
+      amount: Number(order.total),
       currency: 'eur',
       metadata: {
         orderId: order.id,
@@ -119,86 +196,725 @@ export class PaymentsService {
     });
 
     // Save payment intent ID to order
-    await this.ordersService.updatePaymentIntent(orderId, paymentIntent.id);
+    await this.ordersService.updatePaymentIntent(orderId, payment.id);
+
+    return { clientSecret: payment.clientSecret! };
+  }
+
+  /**
+   * What cancelling the order does to its payment, without touching it yet:
+   * nothing, cancel a payment that was never captured, or refund a captured one.
+   * Money received by bank transfer or on delivery can only be refunded manually.
+   */
+  async getVoidAction(order: Order): Promise<PaymentVoidAction> {
+    if (!order.paymentIntentId) {
+      return [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(order.paymentStatus)
+        ? 'manual_refund'
+        : 'none';
+    }
+
+    const payment = await this.paymentProvidersService
+      .forPayment(order.paymentIntentId)
+      .retrievePayment(order.paymentIntentId);
+
+    if (payment.status === ProviderPaymentStatus.CANCELED) {
+      return 'none';
+    }
+    return payment.status === ProviderPaymentStatus.SUCCEEDED ? 'refund' : 'cancel';
+  }
+
+  /**
+   * Release the money attached to an order that is being cancelled, as decided
+   * by getVoidAction. Refunds cover whatever has not been refunded yet.
+   */
+  async voidPayment(order: Order, action: PaymentVoidAction, actor?: OrderActor, reason?: string): Promise<void> {
+    if (action === 'cancel') {
+      await this.paymentProvidersService.forPayment(order.paymentIntentId).cancelPayment(order.paymentIntentId);
+    } else if (action === 'refund' || action === 'manual_refund') {
+      const remaining = this.roundAmount(this.getPaidAmount(order) - (await this.getRefundedAmount(order.id)));
+      if (remaining <= 0) {
+        return;
+      }
+      if (action === 'refund') {
+        await this.issueProviderRefund(order, remaining, null, actor, reason);
+      } else {
+        await this.recordManualRefund(order, remaining, actor, reason);
+      }
+    }
+  }
+
+  /**
+   * Record money the shop owes back for a payment no provider can refund, e.g. a bank
+   * transfer, so the order and the ledger show it; paying it back happens outside the shop.
+   */
+  private async recordManualRefund(order: Order, amount: number, actor?: OrderActor, reason?: string): Promise<Refund> {
+    const refund = await this.refundsRepository.save(
+      this.refundsRepository.create({
+        orderId: order.id,
+        amount,
+        status: RefundStatus.SUCCEEDED,
+        reason,
+        createdById: actor?.id,
+        createdByName: getActorName(actor),
+      }),
+    );
+
+    await this.paymentTransactionsService.record({
+      orderId: order.id,
+      type: PaymentTransactionType.REFUND,
+      provider: order.paymentMethod,
+      amount,
+      paymentId: order.paymentReference,
+      providerReference: refund.id,
+      providerStatus: 'manual',
+      description: reason ? `Manual refund: ${reason}` : 'Manual refund',
+      actor,
+    });
+
+    return refund;
+  }
+
+  async getRefunds(orderId: string): Promise<Refund[]> {
+    return this.refundsRepository.find({
+      where: { orderId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Quantities per order item that refunds have already put back into stock.
+   */
+  async getRestockedQuantities(orderId: string): Promise<Map<string, number>> {
+    const restocked = new Map<string, number>();
+    const refunds = await this.refundsRepository.find({ where: { orderId, restocked: true } });
+
+    for (const line of refunds.flatMap((r) => r.items ?? [])) {
+      restocked.set(line.orderItemId, (restocked.get(line.orderItemId) ?? 0) + line.quantity);
+    }
+    return restocked;
+  }
 
-    return { clientSecret: paymentIntent.client_secret! };
+  /**
+   * Quantities per order item covered by refunds that went through or are still pending.
+   */
+  async getRefundedQuantities(orderId: string): Promise<Map<string, number>> {
+    const refunds = await this.getRefunds(orderId);
+    const itemIds = new Set(refunds.flatMap((r) => r.items ?? []).map((line) => line.orderItemId));
+    return new Map([...itemIds].map((id) => [id, this.getRefundedQuantity(id, refunds)]));
   }
 
-  async handleWebhook(signature: string, payload: Buffer): Promise<void> {
-    const stripe = await this.getStripe(); // Ensure stripe is init, though we mainly need the client for internal stuff if any? Actually constructEvent is on stripe.webhooks
+  /**
+   * Refund an order fully or partially through the provider that took the payment.
+   * - items: refund specific line quantities (gross, incl. VAT)
+   * - amount: refund an arbitrary amount (overrides the item total if both are given)
+   * - neither: refund everything that has not been refunded yet
+   */
+  async refundOrder(orderId: string, dto: CreateRefundDto, actor?: OrderActor): Promise<Refund> {
+    const order = await this.ordersService.findOne(orderId);
 
-    // DB First
-    let webhookSecret = await this.configurationService.get('STRIPE_WEBHOOK_SECRET');
-    // Env Fallback
-    if (!webhookSecret) {
-      webhookSecret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET') || null;
+    if (!order.paymentIntentId) {
+      throw new BadRequestException('Order has no card payment to refund');
+    }
+    if (![PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(order.paymentStatus)) {
+      throw new BadRequestException(`Cannot refund an order with payment status "${order.paymentStatus}"`);
     }
 
-    if (!webhookSecret) {
-      throw new BadRequestException('Webhook secret not configured');
+    const existingRefunds = await this.getRefunds(order.id);
+    const refundable = this.roundAmount(this.getPaidAmount(order) - this.sumRefunds(existingRefunds));
+    if (refundable <= 0) {
+      throw new BadRequestException('Order has already been refunded in full');
     }
 
-    let event: Stripe.Event;
+    let lineItems: RefundLineItem[] | null = null;
+    let amount: number;
+
+    if (dto.items?.length) {
+      lineItems = this.buildRefundLineItems(order, dto.items, existingRefunds);
+      amount = dto.amount ?? this.roundAmount(lineItems.reduce((sum, line) => sum + line.amount, 0));
+    } else {
+      amount = dto.amount ?? refundable;
+
+      if (dto.restock) {
+        if (amount < refundable) {
+          throw new BadRequestException('Select the items to restock when refunding a partial amount');
+        }
+        // Full refund of the remainder - restock everything not refunded by line yet
+        lineItems = this.buildRefundLineItems(
+          order,
+          order.items.map((item) => ({
+            orderItemId: item.id,
+            quantity: item.quantity - this.getRefundedQuantity(item.id, existingRefunds),
+          })).filter((line) => line.quantity > 0),
+          existingRefunds,
+        );
+      }
+    }
+
+    if (amount > refundable) {
+      throw new BadRequestException(`Refund amount exceeds the refundable balance of ${refundable.toFixed(2)} EUR`);
+    }
+
+    const refund = await this.issueProviderRefund(order, amount, lineItems, actor, dto.reason);
+
+    if (dto.restock && lineItems?.length) {
+      await this.ordersService.restockItems(
+        lineItems.map((line) => ({
+          item: order.items.find((item) => item.id === line.orderItemId)!,
+          quantity: line.quantity,
+        })),
+      );
+      refund.restocked = true;
+      await this.refundsRepository.save(refund);
+    }
+
+    await this.syncOrderRefundStatus(order.id, actor, dto.reason);
+
+    return refund;
+  }
+
+  private async issueProviderRefund(
+    order: Order,
+    amount: number,
+    lineItems: RefundLineItem[] | null,
+    actor?: OrderActor,
+    reason?: string,
+  ): Promise<Refund> {
+    const provider = this.paymentProvidersService.forPayment(order.paymentIntentId);
+    const providerRefund = await provider.createRefund({
+      paymentId: order.paymentIntentId,
+      amount,
+      metadata: { orderId: order.id, orderNumber: order.orderNumber },
+    });
+
+    await this.paymentTransactionsService.record({
+      orderId: order.id,
+      type: PaymentTransactionType.REFUND,
+      provider: provider.name,
+      amount,
+      currency: providerRefund.currency,
+      paymentId: order.paymentIntentId,
+      providerReference: providerRefund.id,
+      providerStatus: providerRefund.providerStatus,
+      description: reason,
+      actor,
+    });
 
     try {
-      event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
-    } catch (err) {
-      throw new BadRequestException(`Webhook signature verification failed`);
+      return await this.refundsRepository.save(
+        this.refundsRepository.create({
+          orderId: order.id,
+          amount,
+          currency: providerRefund.currency,
+          status: providerRefund.status,
+          reason,
+          stripeRefundId: providerRefund.id,
+          items: lineItems,
+          createdById: actor?.id,
+          createdByName: getActorName(actor),
+        }),
+      );
+    } catch (error) {
+      // The provider's webhook recorded the refund first; the money has moved, so add what only we know
+      const winner = this.isUniqueViolation(error)
+        ? await this.refundsRepository.findOne({ where: { stripeRefundId: providerRefund.id } })
+        : null;
+      if (!winner) {
+        throw error;
+      }
+      return this.refundsRepository.save(
+        this.refundsRepository.merge(winner, {
+          reason: reason ?? winner.reason,
+          items: lineItems,
+          createdById: actor?.id,
+          createdByName: getActorName(actor),
+        }),
+      );
     }
+  }
+
+  private buildRefundLineItems(
+    order: Order,
+    requested: Array<{ orderItemId: string; quantity: number }>,
+    existingRefunds: Refund[],
+  ): RefundLineItem[] {
+    // Refund lines at the same VAT rate the order was charged with
+    const taxRate = Number(order.subtotal) > 0 ? Number(order.tax) / Number(order.subtotal) : 0;
+
+    return requested.map(({ orderItemId, quantity }) => {
+      const item = order.items.find((i) => i.id === orderItemId);
+      if (!item) {
+        throw new NotFoundException(`Order item ${orderItemId} not found on this order`);
+      }
+
+      const remaining = item.quantity - this.getRefundedQuantity(item.id, existingRefunds);
+      if (quantity > remaining) {
+        throw new BadRequestException(
+          `Cannot refund ${quantity} x ${item.productName}; only ${remaining} not yet refunded`,
+        );
+      }
 
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        await this.handlePaymentSuccess(paymentIntent);
-        break;
-      case 'payment_intent.payment_failed':
-        const failedIntent = event.data.object as Stripe.PaymentIntent;
-        await this.handlePaymentFailure(failedIntent);
-        break;
+      return {
+        orderItemId,
+        quantity,
+        amount: this.roundAmount(Number(item.unitPrice) * quantity * (1 + taxRate)),
+      };
+    });
+  }
+
+  /**
+   * Align the order's payment status (and order status on a full refund)
+   * with the refunds recorded against it.
+   */
+  private async syncOrderRefundStatus(orderId: string, actor?: OrderActor, reason?: string): Promise<void> {
+    const order = await this.ordersService.findOne(orderId);
+    const refunded = await this.getRefundedAmount(order.id);
+
+    if (refunded <= 0) {
+      return;
     }
+
+    const isFullRefund = refunded >= this.roundAmount(this.getPaidAmount(order));
+    const paymentStatus = isFullRefund ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+
+    if (order.paymentStatus === paymentStatus) {
+      return;
+    }
+
+    await this.ordersService.transitionStatus(
+      order,
+      {
+        paymentStatus,
+        status:
+          isFullRefund && canTransitionOrderStatus(order.status, OrderStatus.REFUNDED)
+            ? OrderStatus.REFUNDED
+            : undefined,
+      },
+      actor,
+      reason ?? (isFullRefund ? 'Order refunded in full' : `Partial refund, ${refunded.toFixed(2)} EUR refunded so far`),
+    );
   }
 
-  private async handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const metadata = paymentIntent.metadata;
+  // What the customer was charged; the order total may have changed since through admin edits
+  private getPaidAmount(order: Order): number {
+    return Number(order.amountPaid ?? order.total);
+  }
+
+  private async getRefundedAmount(orderId: string): Promise<number> {
+    return this.sumRefunds(await this.getRefunds(orderId));
+  }
+
+  // Pending refunds count as refunded - the money is already committed
+  private sumRefunds(refunds: Refund[]): number {
+    return this.roundAmount(
+      refunds
+        .filter((r) => r.status === RefundStatus.SUCCEEDED || r.status === RefundStatus.PENDING)
+        .reduce((sum, r) => sum + Number(r.amount), 0),
+    );
+  }
+
+  private getRefundedQuantity(orderItemId: string, refunds: Refund[]): number {
+    return refunds
+      .filter((r) => r.status !== RefundStatus.FAILED && r.status !== RefundStatus.CANCELED)
+      .flatMap((r) => r.items ?? [])
+      .filter((line) => line.orderItemId === orderItemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  async handleWebhook(
+    providerName: string,
+    headers: Record<string, string | string[] | undefined>,
+    payload: Buffer,
+  ): Promise<void> {
+    const provider = await this.paymentProvidersService.forWebhook(providerName);
+    const event = await provider.parseWebhook(payload, headers);
+
+    const record = await this.claimWebhookEvent(event, provider.name);
+    if (!record) {
+      // Already handled, or another delivery of the same event is being handled right now
+      return;
+    }
+
+    const processed = await this.processWebhookEvent(record, provider, event);
+    if (processed.status === WebhookEventStatus.FAILED) {
+      // Providers retry failed deliveries, and the failed record lets the retry through
+      throw new InternalServerErrorException('Webhook processing failed');
+    }
+  }
+
+  async findWebhookEvents(query: QueryWebhookEventsDto) {
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 20;
+
+    const queryBuilder = this.webhookEventsRepository
+      .createQueryBuilder('event')
+      .select([
+        'event.id',
+        'event.stripeEventId',
+        'event.provider',
+        'event.type',
+        'event.status',
+        'event.paymentIntentId',
+        'event.attempts',
+        'event.lastError',
+        'event.processedAt',
+        'event.createdAt',
+        'event.updatedAt',
+      ]);
+
+    if (query.status) {
+      queryBuilder.andWhere('event.status = :status', { status: query.status });
+    }
+    if (query.type) {
+      queryBuilder.andWhere('event.type = :type', { type: query.type });
+    }
+    if (query.search) {
+      queryBuilder.andWhere('(event.stripeEventId = :search OR event.paymentIntentId = :search)', {
+        search: query.search.trim(),
+      });
+    }
+
+    queryBuilder
+      .orderBy('event.createdAt', 'DESC')
+      .addOrderBy('event.id', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findWebhookEvent(id: string): Promise<WebhookEvent> {
+    const record = await this.webhookEventsRepository.findOne({ where: { id } });
+    if (!record) {
+      throw new NotFoundException('Webhook event not found');
+    }
+    return record;
+  }
+
+  /**
+   * Run a stored event through the handlers again. The handlers are idempotent,
+   * so replaying an event that already succeeded does no harm.
+   */
+  async replayWebhookEvent(id: string): Promise<WebhookEvent> {
+    const record = await this.findWebhookEvent(id);
+
+    // Conditional, so that of two replays at the same moment only one runs
+    const result = await this.webhookEventsRepository.update(
+      [
+        {
+          id,
+          status: In([WebhookEventStatus.PROCESSED, WebhookEventStatus.IGNORED, WebhookEventStatus.FAILED]),
+        },
+        this.stalledWebhookEvent({ id }),
+      ],
+      { status: WebhookEventStatus.PROCESSING },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('This event is being processed right now');
+    }
+    record.status = WebhookEventStatus.PROCESSING;
+
+    const provider = this.paymentProvidersService.get(record.provider);
+    return this.processWebhookEvent(record, provider, provider.toEvent(record.payload));
+  }
+
+  /**
+   * Record the event, or take over a previously failed or abandoned attempt at it.
+   * Returns null when the event must not be processed (again).
+   */
+  private async claimWebhookEvent(event: PaymentEvent, provider: PaymentProviderName): Promise<WebhookEvent | null> {
+    try {
+      return await this.webhookEventsRepository.save(
+        this.webhookEventsRepository.create({
+          stripeEventId: event.id,
+          provider,
+          type: event.type,
+          paymentIntentId: event.paymentId,
+          payload: event.payload,
+          status: WebhookEventStatus.PROCESSING,
+        }),
+      );
+    } catch (error) {
+      if (!this.isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    // Seen before; only a failed or abandoned attempt is worth another go. The conditional
+    // update makes sure just one of several concurrent redeliveries gets it.
+    const result = await this.webhookEventsRepository.update(
+      [
+        { stripeEventId: event.id, status: WebhookEventStatus.FAILED },
+        this.stalledWebhookEvent({ stripeEventId: event.id }),
+      ],
+      { status: WebhookEventStatus.PROCESSING },
+    );
+    if (!result.affected) {
+      return null;
+    }
+    return this.webhookEventsRepository.findOne({ where: { stripeEventId: event.id } });
+  }
+
+  /**
+   * Matches a record left processing by an attempt that never finished. Every claim and
+   * save touches updatedAt, so a live attempt does not match.
+   */
+  private stalledWebhookEvent(where: FindOptionsWhere<WebhookEvent>): FindOptionsWhere<WebhookEvent> {
+    return {
+      ...where,
+      status: WebhookEventStatus.PROCESSING,
+      updatedAt: LessThan(new Date(Date.now() - WEBHOOK_PROCESSING_TIMEOUT_MS)),
+    };
+  }
+
+  private async processWebhookEvent(
+    record: WebhookEvent,
+    provider: PaymentProvider,
+    event: PaymentEvent,
+  ): Promise<WebhookEvent> {
+    record.attempts += 1;
+    try {
+      const handled = await this.dispatchWebhookEvent(provider, event);
+      record.status = handled ? WebhookEventStatus.PROCESSED : WebhookEventStatus.IGNORED;
+      record.lastError = null;
+      record.processedAt = new Date();
+    } catch (error) {
+      console.error(`Webhook event ${event.id} (${event.type}) failed:`, error);
+      record.status = WebhookEventStatus.FAILED;
+      record.lastError = error instanceof Error ? error.message : String(error);
+    }
+    return this.webhookEventsRepository.save(record);
+  }
+
+  /**
+   * Returns false for event types we do not act on.
+   */
+  private async dispatchWebhookEvent(provider: PaymentProvider, event: PaymentEvent): Promise<boolean> {
+    switch (event.kind) {
+      case PaymentEventType.PAYMENT_AUTHORIZED:
+        await this.handlePaymentAuthorized(provider, event.payment!);
+        return true;
+      case PaymentEventType.PAYMENT_SUCCEEDED:
+        await this.handlePaymentSuccess(provider, event.payment!);
+        return true;
+      case PaymentEventType.PAYMENT_FAILED:
+        await this.handlePaymentFailure(provider, event.payment!, event.id);
+        return true;
+      case PaymentEventType.PAYMENT_CANCELED:
+        await this.stockReservationsService.release(event.payment!.id);
+        return true;
+      case PaymentEventType.REFUNDS_CHANGED:
+        if (event.paymentId) {
+          await this.handleRefundsChanged(provider, event.paymentId);
+        }
+        return true;
+      case PaymentEventType.REFUND_UPDATED:
+        await this.handleRefundUpdated(provider, event.refund!);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return error instanceof QueryFailedError && (error as QueryFailedError & { code?: string }).code === '23505';
+  }
+
+  private async handlePaymentAuthorized(provider: PaymentProvider, payment: ProviderPayment): Promise<void> {
+    const order = payment.metadata.orderId
+      ? await this.ordersService.findOne(payment.metadata.orderId)
+      : await this.ordersService.findByPaymentIntentId(payment.id);
+
+    await this.paymentTransactionsService.record({
+      orderId: order?.id,
+      type: PaymentTransactionType.AUTHORIZATION,
+      provider: provider.name,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentId: payment.id,
+      providerReference: payment.id,
+      providerStatus: payment.providerStatus,
+    });
+  }
+
+  private async handlePaymentSuccess(provider: PaymentProvider, payment: ProviderPayment, actor?: OrderActor): Promise<void> {
+    const metadata = payment.metadata;
 
     // Check if this is a legacy order-based payment
     if (metadata.orderId) {
       await this.ordersService.markAsPaid(metadata.orderId);
+      await this.recordCapture(provider, payment, metadata.orderId);
       return;
     }
 
     // New checkout flow - create order from cart
     if (metadata.shippingAddress) {
+      let order: Order;
       try {
-        const userId = metadata.userId || undefined;
-        const guestToken = metadata.guestToken || undefined;
+        order = await this.createOrderForPayment(payment);
+      } catch (error) {
+        // The customer has paid, so this must not get lost in the log
+        await this.checkoutRecoveryService.recordFailure(payment, error, await this.getPaidLines(payment.id));
+        throw error;
+      }
+      await this.checkoutRecoveryService.markResolved(payment.id, order.id, actor);
+      await this.recordCapture(provider, payment, order.id);
+    }
+  }
 
-        const createOrderDto = {
-          guestEmail: metadata.guestEmail || undefined,
-          shippingAddress: JSON.parse(metadata.shippingAddress),
-          billingAddress: JSON.parse(metadata.billingAddress),
-          notes: metadata.notes || undefined,
-          shippingMethod: metadata.shippingMethod || undefined,
-        };
+  /**
+   * Put a succeeded payment and the provider's fee for it in the ledger.
+   */
+  private async recordCapture(provider: PaymentProvider, payment: ProviderPayment, orderId: string): Promise<void> {
+    await this.paymentTransactionsService.record({
+      orderId,
+      type: PaymentTransactionType.CAPTURE,
+      provider: provider.name,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentId: payment.id,
+      providerReference: payment.id,
+      providerStatus: payment.providerStatus,
+    });
+    await this.paymentTransactionsService.linkPayment(payment.id, orderId);
 
-        // Create the order (this also clears the cart)
-        const order = await this.ordersService.create(createOrderDto, userId, guestToken);
+    // A missing fee is no reason to fail the payment; it can be looked up at the provider
+    try {
+      const fee = await provider.retrieveFee(payment.id);
+      if (fee) {
+        await this.paymentTransactionsService.record({
+          orderId,
+          type: PaymentTransactionType.FEE,
+          provider: provider.name,
+          amount: fee.amount,
+          currency: fee.currency,
+          paymentId: payment.id,
+          providerReference: fee.id,
+          providerStatus: fee.providerStatus,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to record the fee of payment ${payment.id}:`, error);
+    }
+  }
 
-        // Mark as paid immediately since payment already succeeded
-        await this.ordersService.markAsPaid(order.id);
-        await this.ordersService.updatePaymentIntent(order.id, paymentIntent.id);
+  private async createOrderForPayment(payment: ProviderPayment): Promise<Order> {
+    const metadata = payment.metadata;
 
-        console.log(`Order ${order.orderNumber} created and marked as paid`);
-      } catch (error) {
-        console.error('Failed to create order from payment:', error);
-        // In production, you'd want to handle this more gracefully
-        // Maybe store failed orders for manual review
+    // A retried or replayed event finds the order the first delivery created
+    const existing = await this.ordersService.findByPaymentIntentId(payment.id);
+    if (existing) {
+      return this.ordersService.markAsPaid(existing.id);
+    }
+
+    const userId = metadata.userId || undefined;
+    const guestToken = metadata.guestToken || undefined;
+
+    const createOrderDto = {
+      guestEmail: metadata.guestEmail || undefined,
+      shippingAddress: JSON.parse(metadata.shippingAddress),
+      billingAddress: JSON.parse(metadata.billingAddress),
+      notes: metadata.notes || undefined,
+      shippingMethod: metadata.shippingMethod || undefined,
+    };
+
+    // After a failed attempt the cart may have changed, so later attempts use the lines
+    // that were paid for; either way the order must come to what was paid
+    const failure = await this.checkoutRecoveryService.findByPaymentIntentId(payment.id);
+    if (failure && !failure.items) {
+      throw new BadRequestException('The paid cart lines were not recorded; create this order by hand');
+    }
+    const paid = { items: failure?.items ?? undefined, amount: payment.amount };
+
+    // Create the order (this also clears the cart when it is built from it)
+    let order: Order;
+    try {
+      order = await this.ordersService.create(createOrderDto, userId, guestToken, payment.id, paid);
+    } catch (error) {
+      // Another event for the same payment got there first
+      const winner = this.isUniqueViolation(error)
+        ? await this.ordersService.findByPaymentIntentId(payment.id)
+        : null;
+      if (!winner) {
+        throw error;
       }
+      order = winner;
+    }
+
+    // Mark as paid immediately since payment already succeeded
+    await this.ordersService.markAsPaid(order.id);
+
+    console.log(`Order ${order.orderNumber} created and marked as paid`);
+    return order;
+  }
+
+  /**
+   * The cart lines a payment was for, as reserved at checkout. Null when any price is
+   * missing, since the order could not be rebuilt from them.
+   */
+  private async getPaidLines(paymentIntentId: string): Promise<PaidCheckoutLine[] | null> {
+    const lines = await this.stockReservationsService.findLines(paymentIntentId);
+    if (lines.length === 0 || lines.some((line) => line.price === undefined)) {
+      return null;
+    }
+    return lines.map((line) => ({ ...line, price: line.price! }));
+  }
+
+  /**
+   * Try again to create the order for a paid checkout that failed.
+   * Returns the updated record; on another failure it stays open with the new error.
+   */
+  async retryCheckoutFailure(id: string, actor?: OrderActor): Promise<CheckoutFailure> {
+    const failure = await this.checkoutRecoveryService.findOne(id);
+    if (failure.status !== CheckoutFailureStatus.OPEN) {
+      throw new BadRequestException('Only open payment issues can be retried');
+    }
+
+    // Fetch the payment again rather than trusting the stored copy
+    const provider = this.paymentProvidersService.forPayment(failure.paymentIntentId);
+    const payment = await provider.retrievePayment(failure.paymentIntentId);
+    if (payment.status !== ProviderPaymentStatus.SUCCEEDED) {
+      throw new BadRequestException(`Payment is ${payment.status}, not succeeded`);
+    }
+
+    try {
+      await this.handlePaymentSuccess(provider, payment, actor);
+    } catch (error) {
+      console.error(`Retry of checkout ${failure.paymentIntentId} failed:`, error);
     }
+    return this.checkoutRecoveryService.findOne(id);
   }
 
-  private async handlePaymentFailure(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const metadata = paymentIntent.metadata;
+  private async handlePaymentFailure(provider: PaymentProvider, payment: ProviderPayment, eventId: string): Promise<void> {
+    const metadata = payment.metadata;
+
+    await this.stockReservationsService.release(payment.id);
+
+    // Each declined attempt is its own event
+    await this.paymentTransactionsService.record({
+      orderId: metadata.orderId || null,
+      type: PaymentTransactionType.FAILURE,
+      provider: provider.name,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentId: payment.id,
+      providerReference: eventId,
+      providerStatus: payment.providerStatus,
+      description: payment.lastError,
+    });
 
     // Clear the cart even on failure so user can try again with fresh cart
     if (metadata.userId || metadata.guestToken) {
@@ -213,6 +929,79 @@ export class PaymentsService {
       }
     }
 
-    console.log('Payment failed:', paymentIntent.id);
+    console.log('Payment failed:', payment.id);
+  }
+
+  /**
+   * Record refunds that were issued directly at the provider (e.g. the Stripe dashboard)
+   * and update the status of the ones we issued ourselves.
+   */
+  private async handleRefundsChanged(provider: PaymentProvider, paymentId: string): Promise<void> {
+    const order = await this.ordersService.findByPaymentIntentId(paymentId);
+    if (!order) {
+      console.log(`Refund webhook for unknown payment intent ${paymentId}`);
+      return;
+    }
+
+    const providerRefunds = await provider.listRefunds(paymentId);
+
+    for (const providerRefund of providerRefunds) {
+      await this.paymentTransactionsService.record({
+        orderId: order.id,
+        type: PaymentTransactionType.REFUND,
+        provider: provider.name,
+        amount: providerRefund.amount,
+        currency: providerRefund.currency,
+        paymentId,
+        providerReference: providerRefund.id,
+        providerStatus: providerRefund.providerStatus,
+        description: providerRefund.reason ?? `Refunded in ${provider.label}`,
+      });
+
+      const existing = await this.refundsRepository.findOne({ where: { stripeRefundId: providerRefund.id } });
+
+      if (existing) {
+        existing.status = providerRefund.status;
+        await this.refundsRepository.save(existing);
+        continue;
+      }
+
+      await this.refundsRepository.save(
+        this.refundsRepository.create({
+          orderId: order.id,
+          amount: providerRefund.amount,
+          currency: providerRefund.currency,
+          status: providerRefund.status,
+          reason: providerRefund.reason ?? `Refunded in ${provider.label}`,
+          stripeRefundId: providerRefund.id,
+          items: null,
+          createdByName: provider.label,
+        }),
+      );
+    }
+
+    await this.syncOrderRefundStatus(order.id, undefined, `Refund reported by ${provider.label}`);
+  }
+
+  private async handleRefundUpdated(provider: PaymentProvider, providerRefund: ProviderRefund): Promise<void> {
+    const refund = await this.refundsRepository.findOne({ where: { stripeRefundId: providerRefund.id } });
+    if (!refund) {
+      return;
+    }
+
+    await this.paymentTransactionsService.record({
+      orderId: refund.orderId,
+      type: PaymentTransactionType.REFUND,
+      provider: provider.name,
+      amount: providerRefund.amount,
+      currency: providerRefund.currency,
+      paymentId: providerRefund.paymentId,
+      providerReference: providerRefund.id,
+      providerStatus: providerRefund.providerStatus,
+    });
+
+    refund.status = providerRefund.status;
+    await this.refundsRepository.save(refund);
+    await this.syncOrderRefundStatus(refund.orderId, undefined, `Refund ${refund.status}`);
   }
 }
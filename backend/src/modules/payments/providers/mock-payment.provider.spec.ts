@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { MockPaymentProvider } from './mock-payment.provider';
+import { PaymentEventType } from './payment-provider.interface';
+
+describe('MockPaymentProvider', () => {
+  let provider: MockPaymentProvider;
+  let settings: Record<string, string>;
+
+  beforeEach(async () => {
+    settings = { PAYMENT_PROVIDER: 'mock', MOCK_PAYMENT_WEBHOOK_SECRET: 'test-secret' };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MockPaymentProvider,
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => settings[key]) } },
+        { provide: ConfigurationService, useValue: { get: jest.fn().mockResolvedValue(null) } },
+      ],
+    }).compile();
+
+    provider = moduleRef.get(MockPaymentProvider);
+  });
+
+  function event(type: string, object: Record<string, unknown>) {
+    return { id: 'mock_evt_1', type, data: { object } };
+  }
+
+  describe('onModuleInit', () => {
+    it('refuses to start as the active provider without a webhook secret', async () => {
+      delete settings.MOCK_PAYMENT_WEBHOOK_SECRET;
+
+      await expect(provider.onModuleInit()).rejects.toThrow('MOCK_PAYMENT_WEBHOOK_SECRET is not set');
+    });
+
+    it('does not need the secret while another provider is active', async () => {
+      settings = { PAYMENT_PROVIDER: 'stripe' };
+
+      await expect(provider.onModuleInit()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('toEvent', () => {
+    it('takes the payment from its own store instead of the event body', async () => {
+      const payment = await provider.createPayment({ amount: 49.9, currency: 'eur', metadata: { total: '49.90' } });
+
+      const parsed = provider.toEvent(
+        event('payment_intent.canceled', { id: payment.id, amount: 0.01, metadata: { orderId: 'someone-else' } }),
+      );
+
+      expect(parsed.kind).toBe(PaymentEventType.PAYMENT_CANCELED);
+      expect(parsed.payment).toEqual(expect.objectContaining({ amount: 49.9, metadata: { total: '49.90' } }));
+    });
+
+    it('rejects events about payments it never took', () => {
+      expect(() => provider.toEvent(event('payment_intent.succeeded', { id: 'mock_pi_forged' }))).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('rejects a success for a payment that has not been paid', async () => {
+      const payment = await provider.createPayment({ amount: 10, currency: 'eur', metadata: {} });
+
+      expect(() => provider.toEvent(event('payment_intent.succeeded', { id: payment.id, status: 'succeeded' }))).toThrow(
+        'has not succeeded',
+      );
+    });
+  });
+});
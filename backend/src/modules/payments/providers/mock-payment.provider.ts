@@ -0,0 +1,257 @@
+import { Injectable, Logger, BadRequestException, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { RefundStatus } from '../entities/refund.entity';
+import {
+  PaymentProvider,
+  PaymentProviderName,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  ProviderFee,
+  PaymentEvent,
+  PaymentEventType,
+  CreatePaymentParams,
+  CreateRefundParams,
+} from './payment-provider.interface';
+
+// What the mock checkout page lets the customer pick, after Stripe's test cards
+export enum MockPaymentMethod {
+  SUCCESS = 'pm_mock_success',
+  DECLINED = 'pm_mock_declined',
+}
+
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+  'payment_intent.succeeded': PaymentEventType.PAYMENT_SUCCEEDED,
+  'payment_intent.payment_failed': PaymentEventType.PAYMENT_FAILED,
+  'payment_intent.canceled': PaymentEventType.PAYMENT_CANCELED,
+};
+
+/**
+ * Simulated gateway for running checkout without Stripe keys. Payments live in memory
+ * and are forgotten on restart. Outcomes are sent as signed webhooks to our own
+ * endpoint, so orders are created the same way as with a real gateway.
+ */
+@Injectable()
+export class MockPaymentProvider implements PaymentProvider, OnModuleInit {
+  readonly name = PaymentProviderName.MOCK;
+  readonly label = 'Mock payments';
+
+  private readonly logger = new Logger(MockPaymentProvider.name);
+  private readonly payments = new Map<string, ProviderPayment>();
+  private readonly refunds = new Map<string, ProviderRefund>();
+
+  constructor(
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  // Anyone who knows the secret can send us events, so there is no default for it
+  async onModuleInit() {
+    const provider =
+      (await this.configurationService.get('PAYMENT_PROVIDER')) ?? this.configService.get<string>('PAYMENT_PROVIDER');
+    if (provider === this.name) {
+      await this.getWebhookSecret();
+    }
+  }
+
+  ownsPayment(paymentId: string): boolean {
+    return paymentId.startsWith('mock_pi_');
+  }
+
+  async createPayment(params: CreatePaymentParams): Promise<ProviderPayment> {
+    const id = this.createId('mock_pi');
+    const payment: ProviderPayment = {
+      id,
+      clientSecret: `${id}_secret_${crypto.randomBytes(12).toString('hex')}`,
+      amount: Math.round(params.amount * 100) / 100,
+      currency: params.currency,
+      status: ProviderPaymentStatus.REQUIRES_PAYMENT,
+      providerStatus: ProviderPaymentStatus.REQUIRES_PAYMENT,
+      lastError: null,
+      metadata: { ...params.metadata },
+      receiptEmail: null,
+    };
+    this.payments.set(id, payment);
+    return { ...payment };
+  }
+
+  async retrievePayment(paymentId: string): Promise<ProviderPayment> {
+    return { ...this.getPayment(paymentId) };
+  }
+
+  async confirmPayment(paymentId: string, paymentMethod: string): Promise<ProviderPayment> {
+    const payment = this.getPayment(paymentId);
+    if (payment.status !== ProviderPaymentStatus.REQUIRES_PAYMENT) {
+      throw new BadRequestException(`Payment is already ${payment.status}`);
+    }
+
+    switch (paymentMethod) {
+      case MockPaymentMethod.SUCCESS:
+        payment.status = payment.providerStatus = ProviderPaymentStatus.SUCCEEDED;
+        payment.lastError = null;
+        this.emit('payment_intent.succeeded', payment);
+        break;
+      case MockPaymentMethod.DECLINED:
+        // Like a declined card, the payment can be attempted again
+        payment.lastError = 'Your card was declined.';
+        this.emit('payment_intent.payment_failed', payment);
+        break;
+      default:
+        throw new BadRequestException(`Unknown mock payment method "${paymentMethod}"`);
+    }
+    return { ...payment };
+  }
+
+  async cancelPayment(paymentId: string): Promise<ProviderPayment> {
+    const payment = this.getPayment(paymentId);
+    if (payment.status === ProviderPaymentStatus.SUCCEEDED) {
+      throw new BadRequestException('A succeeded payment cannot be cancelled; refund it instead');
+    }
+    if (payment.status !== ProviderPaymentStatus.CANCELED) {
+      payment.status = payment.providerStatus = ProviderPaymentStatus.CANCELED;
+      this.emit('payment_intent.canceled', payment);
+    }
+    return { ...payment };
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<ProviderRefund> {
+    const payment = this.getPayment(params.paymentId);
+    if (payment.status !== ProviderPaymentStatus.SUCCEEDED) {
+      throw new BadRequestException('Only succeeded payments can be refunded');
+    }
+
+    const refund: ProviderRefund = {
+      id: this.createId('mock_re'),
+      paymentId: payment.id,
+      amount: Math.round(params.amount * 100) / 100,
+      currency: payment.currency,
+      status: RefundStatus.SUCCEEDED,
+      providerStatus: RefundStatus.SUCCEEDED,
+      reason: null,
+    };
+    this.refunds.set(refund.id, refund);
+    return { ...refund };
+  }
+
+  async listRefunds(paymentId: string): Promise<ProviderRefund[]> {
+    return [...this.refunds.values()]
+      .filter((refund) => refund.paymentId === paymentId)
+      .map((refund) => ({ ...refund }));
+  }
+
+  // Simulated payments cost nothing
+  async retrieveFee(): Promise<ProviderFee | null> {
+    return null;
+  }
+
+  async parseWebhook(payload: Buffer, headers: Record<string, string | string[] | undefined>): Promise<PaymentEvent> {
+    const signature = headers['x-mock-signature'];
+    const expected = this.sign(payload, await this.getWebhookSecret());
+
+    let valid = false;
+    try {
+      valid = typeof signature === 'string' && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new BadRequestException(`Webhook signature verification failed`);
+    }
+    return this.toEvent(JSON.parse(payload.toString('utf-8')));
+  }
+
+  /**
+   * The payment is taken from our own store, not the event body, so an event cannot
+   * claim a different amount or checkout than the payment it is about.
+   */
+  toEvent(payload: Record<string, any>): PaymentEvent {
+    const payment = this.payments.get(payload.data?.object?.id);
+    if (!payment) {
+      throw new BadRequestException(`Mock event ${payload.id} is about an unknown payment`);
+    }
+    const kind = EVENT_TYPES[payload.type] ?? null;
+    if (kind === PaymentEventType.PAYMENT_SUCCEEDED && payment.status !== ProviderPaymentStatus.SUCCEEDED) {
+      throw new BadRequestException(`Mock payment ${payment.id} has not succeeded`);
+    }
+    return {
+      id: payload.id,
+      type: payload.type,
+      kind,
+      paymentId: payment.id,
+      payment: { ...payment },
+      payload,
+    };
+  }
+
+  private getPayment(paymentId: string): ProviderPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new NotFoundException(`Mock payment ${paymentId} not found`);
+    }
+    return payment;
+  }
+
+  /**
+   * Send the event to our webhook endpoint once the current request has been answered,
+   * as a gateway would. Failed deliveries are not retried; replay the stored event instead.
+   */
+  private emit(type: string, payment: ProviderPayment): void {
+    const event = {
+      id: this.createId('mock_evt'),
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object: { ...payment } },
+    };
+
+    setImmediate(() => {
+      this.deliver(event).catch((error) => {
+        this.logger.error(`Failed to deliver mock event ${event.id} (${type})`, error);
+      });
+    });
+  }
+
+  private async deliver(event: Record<string, any>): Promise<void> {
+    const body = JSON.stringify(event);
+    const secret = await this.getWebhookSecret();
+    const url = await this.getSetting(
+      'MOCK_PAYMENT_WEBHOOK_URL',
+      `http://localhost:${this.configService.get<string>('PORT') || 3000}/api/payments/webhook/mock`,
+    );
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-mock-signature': this.sign(Buffer.from(body), secret),
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook endpoint answered ${response.status}`);
+    }
+  }
+
+  private async getWebhookSecret(): Promise<string> {
+    const secret =
+      (await this.configurationService.get('MOCK_PAYMENT_WEBHOOK_SECRET')) ??
+      this.configService.get<string>('MOCK_PAYMENT_WEBHOOK_SECRET');
+    if (!secret) {
+      throw new Error('MOCK_PAYMENT_WEBHOOK_SECRET is not set. The mock payment provider needs it to sign its webhooks.');
+    }
+    return secret;
+  }
+
+  private sign(payload: Buffer, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  private async getSetting(key: string, fallback: string): Promise<string> {
+    return (await this.configurationService.get(key)) ?? this.configService.get<string>(key) ?? fallback;
+  }
+}
@@ -0,0 +1,135 @@
+import { RefundStatus } from '../entities/refund.entity';
+
+export enum PaymentProviderName {
+  STRIPE = 'stripe',
+  MOCK = 'mock', // Simulated payments for development, never in production
+}
+
+export enum ProviderPaymentStatus {
+  REQUIRES_PAYMENT = 'requires_payment', // Created, or the last attempt was declined
+  PROCESSING = 'processing',
+  SUCCEEDED = 'succeeded',
+  CANCELED = 'canceled',
+}
+
+/**
+ * A payment at the provider, with amounts in euros rather than the provider's minor units.
+ */
+export interface ProviderPayment {
+  id: string;
+  clientSecret: string | null;
+  amount: number;
+  currency: string;
+  status: ProviderPaymentStatus;
+  // Status in the provider's own words, kept in the transaction ledger
+  providerStatus: string;
+  // Why the last attempt failed, as the provider explains it
+  lastError: string | null;
+  // Checkout data the order is created from once the payment succeeds
+  metadata: Record<string, string>;
+  receiptEmail: string | null;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentId: string | null;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  providerStatus: string;
+  reason: string | null;
+}
+
+/**
+ * What the provider kept of a payment for itself.
+ */
+export interface ProviderFee {
+  id: string;
+  amount: number;
+  currency: string;
+  providerStatus: string;
+}
+
+export enum PaymentEventType {
+  PAYMENT_AUTHORIZED = 'payment_authorized', // Held for a later capture
+  PAYMENT_SUCCEEDED = 'payment_succeeded',
+  PAYMENT_FAILED = 'payment_failed',
+  PAYMENT_CANCELED = 'payment_canceled',
+  REFUNDS_CHANGED = 'refunds_changed', // A refund was added to the payment, possibly outside the shop
+  REFUND_UPDATED = 'refund_updated',
+}
+
+/**
+ * A webhook event translated from the provider's format.
+ */
+export interface PaymentEvent {
+  id: string;
+  // The provider's own name for the event, e.g. "payment_intent.succeeded"
+  type: string;
+  // Null for events we do not act on
+  kind: PaymentEventType | null;
+  paymentId?: string;
+  payment?: ProviderPayment;
+  refund?: ProviderRefund;
+  // The event as received, stored so it can be replayed
+  payload: Record<string, any>;
+}
+
+export interface CreatePaymentParams {
+  amount: number;
+  currency: string;
+  metadata: Record<string, string>;
+}
+
+export interface CreateRefundParams {
+  paymentId: string;
+  amount: number;
+  metadata: Record<string, string>;
+}
+
+/**
+ * A payment gateway. Checkout creates a payment the browser confirms; the outcome
+ * reaches us as a webhook event.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  // Shown as the author of refunds made at the provider
+  readonly label: string;
+
+  /**
+   * Whether a payment ID was issued by this provider.
+   */
+  ownsPayment(paymentId: string): boolean;
+
+  createPayment(params: CreatePaymentParams): Promise<ProviderPayment>;
+
+  retrievePayment(paymentId: string): Promise<ProviderPayment>;
+
+  /**
+   * Attempt the payment with a payment method the browser collected.
+   */
+  confirmPayment(paymentId: string, paymentMethod: string): Promise<ProviderPayment>;
+
+  cancelPayment(paymentId: string): Promise<ProviderPayment>;
+
+  createRefund(params: CreateRefundParams): Promise<ProviderRefund>;
+
+  listRefunds(paymentId: string): Promise<ProviderRefund[]>;
+
+  /**
+   * The processing fee of a succeeded payment, or null when the provider charges none
+   * or has not settled it yet.
+   */
+  retrieveFee(paymentId: string): Promise<ProviderFee | null>;
+
+  /**
+   * Verify the signature of a webhook delivery and translate the event.
+   * Throws a BadRequestException when the signature does not match.
+   */
+  parseWebhook(payload: Buffer, headers: Record<string, string | string[] | undefined>): Promise<PaymentEvent>;
+
+  /**
+   * Translate an event stored earlier, for replays.
+   */
+  toEvent(payload: Record<string, any>): PaymentEvent;
+}
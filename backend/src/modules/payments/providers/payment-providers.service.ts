@@ -0,0 +1,71 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { PaymentProvider, PaymentProviderName } from './payment-provider.interface';
+import { StripePaymentProvider } from './stripe-payment.provider';
+import { MockPaymentProvider } from './mock-payment.provider';
+
+/**
+ * Picks the gateway for new checkouts (PAYMENT_PROVIDER, Stripe by default) and the one
+ * that took an existing payment, so switching does not strand payments in flight.
+ */
+@Injectable()
+export class PaymentProvidersService {
+  constructor(
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+    private stripePaymentProvider: StripePaymentProvider,
+    private mockPaymentProvider: MockPaymentProvider,
+  ) { }
+
+  async getActive(): Promise<PaymentProvider> {
+    return this.get(await this.getActiveName());
+  }
+
+  /**
+   * The provider a webhook claims to come from. The mock signs its own events, so they
+   * are only accepted while it is the gateway taking payments.
+   */
+  async forWebhook(name: string): Promise<PaymentProvider> {
+    const provider = this.get(name);
+    if (provider.name === PaymentProviderName.MOCK && (await this.getActiveName()) !== PaymentProviderName.MOCK) {
+      throw new BadRequestException('The mock payment provider is not enabled');
+    }
+    return provider;
+  }
+
+  get(name: string): PaymentProvider {
+    const provider = this.getAll().find((candidate) => candidate.name === name);
+    if (!provider) {
+      throw new BadRequestException(`Unknown payment provider "${name}"`);
+    }
+    // Anyone could mark a mock payment as paid
+    if (provider.name === PaymentProviderName.MOCK && this.configService.get<string>('NODE_ENV') === 'production') {
+      throw new BadRequestException('The mock payment provider is not available in production');
+    }
+    return provider;
+  }
+
+  /**
+   * The provider that issued a payment ID.
+   */
+  forPayment(paymentId: string): PaymentProvider {
+    const provider = this.getAll().find((candidate) => candidate.ownsPayment(paymentId));
+    if (!provider) {
+      throw new BadRequestException(`No payment provider issued payment ${paymentId}`);
+    }
+    return this.get(provider.name);
+  }
+
+  private async getActiveName(): Promise<string> {
+    return (
+      (await this.configurationService.get('PAYMENT_PROVIDER')) ??
+      this.configService.get<string>('PAYMENT_PROVIDER') ??
+      PaymentProviderName.STRIPE
+    );
+  }
+
+  private getAll(): PaymentProvider[] {
+    return [this.stripePaymentProvider, this.mockPaymentProvider];
+  }
+}
@@ -0,0 +1,236 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { RefundStatus } from '../entities/refund.entity';
+import {
+  PaymentProvider,
+  PaymentProviderName,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  ProviderFee,
+  PaymentEvent,
+  PaymentEventType,
+  CreatePaymentParams,
+  CreateRefundParams,
+} from './payment-provider.interface';
+
+// Stripe events we act on
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+  'payment_intent.amount_capturable_updated': PaymentEventType.PAYMENT_AUTHORIZED,
+  'payment_intent.succeeded': PaymentEventType.PAYMENT_SUCCEEDED,
+  'payment_intent.payment_failed': PaymentEventType.PAYMENT_FAILED,
+  'payment_intent.canceled': PaymentEventType.PAYMENT_CANCELED,
+  'charge.refunded': PaymentEventType.REFUNDS_CHANGED,
+  'charge.refund.updated': PaymentEventType.REFUND_UPDATED,
+};
+
+@Injectable()
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.STRIPE;
+  readonly label = 'Stripe';
+
+  private stripe: Stripe | null = null;
+  private currentApiKey: string | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  ownsPayment(paymentId: string): boolean {
+    return paymentId.startsWith('pi_');
+  }
+
+  async createPayment(params: CreatePaymentParams): Promise<ProviderPayment> {
+    const stripe = await this.getStripe();
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(params.amount * 100),
+      currency: params.currency,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+      metadata: params.metadata,
+    });
+    return this.toPayment(paymentIntent);
+  }
+
+  async retrievePayment(paymentId: string): Promise<ProviderPayment> {
+    const stripe = await this.getStripe();
+    return this.toPayment(await stripe.paymentIntents.retrieve(paymentId));
+  }
+
+  async confirmPayment(paymentId: string, paymentMethod: string): Promise<ProviderPayment> {
+    const stripe = await this.getStripe();
+    return this.toPayment(await stripe.paymentIntents.confirm(paymentId, { payment_method: paymentMethod }));
+  }
+
+  async cancelPayment(paymentId: string): Promise<ProviderPayment> {
+    const stripe = await this.getStripe();
+    return this.toPayment(
+      await stripe.paymentIntents.cancel(paymentId, { cancellation_reason: 'requested_by_customer' }),
+    );
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<ProviderRefund> {
+    const stripe = await this.getStripe();
+    const refund = await stripe.refunds.create({
+      payment_intent: params.paymentId,
+      amount: Math.round(params.amount * 100),
+      reason: 'requested_by_customer',
+      metadata: params.metadata,
+    });
+    return this.toRefund(refund);
+  }
+
+  async listRefunds(paymentId: string): Promise<ProviderRefund[]> {
+    const stripe = await this.getStripe();
+    const refunds = await stripe.refunds.list({ payment_intent: paymentId, limit: 100 });
+    return refunds.data.map((refund) => this.toRefund(refund));
+  }
+
+  async retrieveFee(paymentId: string): Promise<ProviderFee | null> {
+    const stripe = await this.getStripe();
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentId, {
+      expand: ['latest_charge.balance_transaction'],
+    });
+
+    const charge = paymentIntent.latest_charge;
+    const balanceTransaction = charge && typeof charge !== 'string' ? charge.balance_transaction : null;
+    if (!balanceTransaction || typeof balanceTransaction === 'string') {
+      return null;
+    }
+    return {
+      id: balanceTransaction.id,
+      amount: balanceTransaction.fee / 100,
+      currency: balanceTransaction.currency,
+      providerStatus: balanceTransaction.status,
+    };
+  }
+
+  async parseWebhook(payload: Buffer, headers: Record<string, string | string[] | undefined>): Promise<PaymentEvent> {
+    const stripe = await this.getStripe();
+
+    // DB First
+    let webhookSecret = await this.configurationService.get('STRIPE_WEBHOOK_SECRET');
+    // Env Fallback
+    if (!webhookSecret) {
+      webhookSecret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET') || null;
+    }
+
+    if (!webhookSecret) {
+      throw new BadRequestException('Webhook secret not configured');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(payload, headers['stripe-signature'] as string, webhookSecret);
+    } catch (err) {
+      throw new BadRequestException(`Webhook signature verification failed`);
+    }
+    return this.toEvent(event as unknown as Record<string, any>);
+  }
+
+  toEvent(payload: Record<string, any>): PaymentEvent {
+    const event = payload as Stripe.Event;
+    const object = event.data.object as { object?: string };
+
+    return {
+      id: event.id,
+      type: event.type,
+      kind: EVENT_TYPES[event.type] ?? null,
+      paymentId: this.getEventPaymentIntentId(event),
+      payment: object.object === 'payment_intent' ? this.toPayment(object as Stripe.PaymentIntent) : undefined,
+      refund: object.object === 'refund' ? this.toRefund(object as Stripe.Refund) : undefined,
+      payload,
+    };
+  }
+
+  private async getStripe(): Promise<Stripe> {
+    // 1. Try DB
+    let secretKey = await this.configurationService.get('STRIPE_SECRET_KEY');
+
+    // 2. Fallback to Env
+    if (!secretKey) {
+      secretKey = this.configService.get<string>('STRIPE_SECRET_KEY') || null;
+    }
+
+    if (!secretKey) {
+      throw new BadRequestException('Stripe Secret Key not configured');
+    }
+
+    // Re-initialize if key changed or stripe instance missing
+    if (!this.stripe || this.currentApiKey !== secretKey) {
+      this.stripe = new Stripe(secretKey, {
+        apiVersion: '2023-10-16',
+      });
+      this.currentApiKey = secretKey;
+    }
+
+    return this.stripe;
+  }
+
+  private getEventPaymentIntentId(event: Stripe.Event): string | undefined {
+    const object = event.data.object as { object?: string; id?: string; payment_intent?: string | { id: string } | null };
+    if (object.object === 'payment_intent') {
+      return object.id;
+    }
+    const paymentIntent = object.payment_intent;
+    return (typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id) || undefined;
+  }
+
+  private toPayment(paymentIntent: Stripe.PaymentIntent): ProviderPayment {
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      amount: paymentIntent.amount / 100,
+      currency: paymentIntent.currency,
+      status: this.mapPaymentStatus(paymentIntent.status),
+      providerStatus: paymentIntent.status,
+      lastError: paymentIntent.last_payment_error?.message ?? null,
+      metadata: paymentIntent.metadata,
+      receiptEmail: paymentIntent.receipt_email,
+    };
+  }
+
+  private toRefund(refund: Stripe.Refund): ProviderRefund {
+    const paymentIntent = refund.payment_intent;
+    return {
+      id: refund.id,
+      paymentId: (typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id) ?? null,
+      amount: refund.amount / 100,
+      currency: refund.currency,
+      status: this.mapRefundStatus(refund.status),
+      providerStatus: refund.status ?? 'pending',
+      reason: refund.reason,
+    };
+  }
+
+  private mapPaymentStatus(status: Stripe.PaymentIntent.Status): ProviderPaymentStatus {
+    switch (status) {
+      case 'succeeded':
+        return ProviderPaymentStatus.SUCCEEDED;
+      case 'canceled':
+        return ProviderPaymentStatus.CANCELED;
+      case 'processing':
+      case 'requires_capture':
+        return ProviderPaymentStatus.PROCESSING;
+      default:
+        return ProviderPaymentStatus.REQUIRES_PAYMENT;
+    }
+  }
+
+  private mapRefundStatus(status: string | null): RefundStatus {
+    switch (status) {
+      case 'succeeded':
+        return RefundStatus.SUCCEEDED;
+      case 'failed':
+        return RefundStatus.FAILED;
+      case 'canceled':
+        return RefundStatus.CANCELED;
+      default:
+        return RefundStatus.PENDING;
+    }
+  }
+}
@@ -45,4 +45,10 @@ export class ProductVariant {
 
   @UpdateDateColumn()
   updatedAt: Date;
+
+  // Held by checkouts that are waiting for payment; filled in by ProductsService, not stored
+  reservedStock?: number;
+
+  // Stock that can still be sold, i.e. minus reservations
+  availableStock?: number;
 }
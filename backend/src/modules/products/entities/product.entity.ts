@@ -80,8 +80,9 @@ export class Product {
   @Column({ default: 0 })
   stock: number;
 
-  @Column({ default: 0 })
-  lowStockThreshold: number;
+  // Null uses the shop default; 0 only warns once the product is sold out
+  @Column({ type: 'int', nullable: true })
+  lowStockThreshold: number | null;
 
   @Column({ nullable: true })
   outOfStockMessage: string; // Custom message when out of stock (e.g., "Available in 2 weeks")
@@ -167,9 +168,15 @@ export class Product {
     return this.price;
   }
 
+  // Held by checkouts that are waiting for payment; filled in by ProductsService, not stored
+  reservedStock?: number;
+
+  // Stock that can still be sold, i.e. minus reservations
+  availableStock?: number;
+
   get inStock(): boolean {
     if (!this.trackInventory) return true;
-    return this.stock > 0 || this.allowBackorder;
+    return this.stock - (this.reservedStock ?? 0) > 0 || this.allowBackorder;
   }
 
   get isOrderable(): boolean {
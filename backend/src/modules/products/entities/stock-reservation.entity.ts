@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+export enum StockReservationStatus {
+  ACTIVE = 'active',
+  CONVERTED = 'converted', // Turned into a stock decrement by the order
+  RELEASED = 'released', // Payment failed or was abandoned
+  EXPIRED = 'expired',
+}
+
+/**
+ * Stock held for a checkout between creating the payment and creating the order.
+ * Only active reservations that have not expired count against available stock.
+ */
+@Entity('stock_reservations')
+@Index(['productId', 'status'])
+export class StockReservation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  product: Product;
+
+  @Column()
+  productId: string;
+
+  @Column({ nullable: true })
+  variantId: string;
+
+  @Column()
+  quantity: number;
+
+  // Unit price the checkout charged, so a paid checkout can still become an order later
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  price: number | null;
+
+  @Index()
+  @Column()
+  paymentIntentId: string;
+
+  @Index()
+  @Column({ nullable: true })
+  cartId: string;
+
+  @Column({
+    type: 'enum',
+    enum: StockReservationStatus,
+    default: StockReservationStatus.ACTIVE,
+  })
+  status: StockReservationStatus;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -428,7 +428,7 @@ export class ImportExportService {
       width: this.parsePrice(row['Širina (cm)']) || undefined,
       height: this.parsePrice(row['Višina (cm)']) || undefined,
       stock: this.parseStock(row.Zaloga),
-      lowStockThreshold: this.parseStock(row['Nizka zaloga']),
+      lowStockThreshold: row['Nizka zaloga'] ? this.parseStock(row['Nizka zaloga']) : null,
       allowBackorder: row['Dovoljena naročila brez zaloge?'] === 'notify' ||
         this.parseBoolean(row['Dovoljena naročila brez zaloge?']),
       status: this.parseBoolean(row.Objavljeno) ? ProductStatus.PUBLISHED : ProductStatus.DRAFT,
@@ -531,7 +531,7 @@ export class ImportExportService {
         product.shortDescription || '',
         product.description || '',
         String(product.stock),
-        String(product.lowStockThreshold),
+        product.lowStockThreshold?.toString() ?? '',
         product.allowBackorder ? '1' : '0',
         product.weight?.toString() || '',
         product.length?.toString() || '',
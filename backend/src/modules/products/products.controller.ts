@@ -69,6 +69,16 @@ export class ProductsController {
     return this.productsService.getFeaturedProducts(limit);
   }
 
+  @Get('low-stock')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get products and variants running low on stock (admin only)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  getLowStock(@Query('limit') limit?: number) {
+    return this.productsService.getLowStock(limit ? Number(limit) : undefined);
+  }
+
   @Get('slug/:slug')
   @ApiOperation({ summary: 'Get product by slug' })
   findBySlug(@Param('slug') slug: string) {
@@ -106,6 +116,19 @@ export class ProductsController {
     return this.productsService.updateStock(id, quantity);
   }
 
+  @Patch(':id/variants/:variantId/stock')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update variant stock (admin only)' })
+  updateVariantStock(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body('quantity') quantity: number,
+  ) {
+    return this.productsService.updateVariantStock(id, variantId, quantity);
+  }
+
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
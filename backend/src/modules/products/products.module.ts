@@ -3,19 +3,23 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { Product } from './entities/product.entity';
 import { ProductImage } from './entities/product-image.entity';
 import { ProductVariant } from './entities/product-variant.entity';
+import { StockReservation } from './entities/stock-reservation.entity';
 import { ProductsService } from './products.service';
+import { StockReservationsService } from './stock-reservations.service';
 import { ImportExportService } from './import-export.service';
 import { ProductsController } from './products.controller';
 import { CategoriesModule } from '../categories/categories.module';
 import { Category } from '../categories/entities/category.entity';
+import { ConfigurationModule } from '../configuration/configuration.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Product, ProductImage, ProductVariant, Category]),
+    TypeOrmModule.forFeature([Product, ProductImage, ProductVariant, Category, StockReservation]),
     CategoriesModule,
+    ConfigurationModule,
   ],
-  providers: [ProductsService, ImportExportService],
+  providers: [ProductsService, ImportExportService, StockReservationsService],
   controllers: [ProductsController],
-  exports: [ProductsService, ImportExportService],
+  exports: [ProductsService, ImportExportService, StockReservationsService],
 })
 export class ProductsModule {}
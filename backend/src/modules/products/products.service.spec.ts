@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CategoriesService } from '../categories/categories.service';
+import { Product } from './entities/product.entity';
+import { ProductImage } from './entities/product-image.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import { ProductsService } from './products.service';
+import { StockReservationsService } from './stock-reservations.service';
+
+// Query builder stand-in whose chained calls all return itself
+function queryBuilder(rows: unknown[]) {
+  const builder: Record<string, jest.Mock> = {};
+  for (const method of ['leftJoinAndSelect', 'innerJoinAndSelect', 'where', 'andWhere', 'setParameters', 'orderBy', 'take']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.getMany = jest.fn().mockResolvedValue(rows);
+  return builder;
+}
+
+describe('ProductsService stock checks', () => {
+  let service: ProductsService;
+  let stockReservationsService: { getReservedQuantities: jest.Mock };
+  let productRows: Record<string, jest.Mock>;
+  let variantRows: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    stockReservationsService = { getReservedQuantities: jest.fn() };
+    productRows = queryBuilder([]);
+    variantRows = queryBuilder([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ProductsService,
+        { provide: getRepositoryToken(Product), useValue: { createQueryBuilder: () => productRows } },
+        { provide: getRepositoryToken(ProductImage), useValue: {} },
+        { provide: getRepositoryToken(ProductVariant), useValue: { createQueryBuilder: () => variantRows } },
+        { provide: CategoriesService, useValue: {} },
+        { provide: StockReservationsService, useValue: stockReservationsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ProductsService);
+  });
+
+  function product(overrides: Partial<Product> = {}): Product {
+    return { id: 'p1', name: 'Mug', stock: 5, trackInventory: true, allowBackorder: false, ...overrides } as Product;
+  }
+
+  describe('applyAvailability', () => {
+    it('takes the reserved quantities off the stock, never below zero', async () => {
+      const mug = product({ variants: [{ id: 'v1', stock: 1 } as ProductVariant] });
+      stockReservationsService.getReservedQuantities.mockResolvedValue({
+        products: new Map([['p1', 2]]),
+        variants: new Map([['v1', 2]]),
+      });
+
+      await service.applyAvailability([mug], 'cart-1');
+
+      expect(stockReservationsService.getReservedQuantities).toHaveBeenCalledWith(['p1'], 'cart-1', undefined);
+      expect(mug.availableStock).toBe(3);
+      expect(mug.variants[0].availableStock).toBe(0);
+    });
+  });
+
+  describe('assertInStock', () => {
+    it('counts what other checkouts are holding', () => {
+      const mug = product({ availableStock: 1 });
+
+      expect(() => service.assertInStock(mug, 2)).toThrow(
+        new BadRequestException('Insufficient stock for Mug: 1 available, 2 requested'),
+      );
+      expect(() => service.assertInStock(mug, 1)).not.toThrow();
+    });
+
+    it('uses the full stock for a checkout that holds the reservation itself', () => {
+      expect(() => service.assertInStock(product({ availableStock: 0 }), 5, null, true)).not.toThrow();
+    });
+
+    it('checks the variant instead of the product when one is given', () => {
+      const variant = { name: 'Blue', stock: 1 } as ProductVariant;
+
+      expect(() => service.assertInStock(product(), 2, variant)).toThrow('Insufficient stock for Mug (Blue)');
+    });
+
+    it('lets backorders and untracked products through', () => {
+      expect(() => service.assertInStock(product({ stock: 0, allowBackorder: true }), 3)).not.toThrow();
+      expect(() => service.assertInStock(product({ stock: 0, trackInventory: false }), 3)).not.toThrow();
+    });
+  });
+
+  describe('getLowStock', () => {
+    it('leaves the threshold comparison to the database', async () => {
+      await service.getLowStock();
+
+      expect(productRows.andWhere).toHaveBeenCalledWith(
+        'product.stock <= COALESCE(product.lowStockThreshold, :defaultThreshold)',
+      );
+      expect(variantRows.andWhere).toHaveBeenCalledWith(
+        'variant.stock <= COALESCE(product.lowStockThreshold, :defaultThreshold)',
+      );
+      expect(productRows.setParameters).toHaveBeenCalledWith(expect.objectContaining({ defaultThreshold: 10 }));
+    });
+
+    it('lists products and variants together, lowest stock first', async () => {
+      productRows.getMany.mockResolvedValue([product({ stock: 0, lowStockThreshold: 0 })]);
+      variantRows.getMany.mockResolvedValue([
+        { id: 'v1', name: 'Blue', stock: 3, product: product({ id: 'p2', name: 'Cup', lowStockThreshold: null }) },
+        { id: 'v2', name: 'Red', stock: 0, product: product({ id: 'p2', name: 'Cup', lowStockThreshold: null }) },
+      ]);
+
+      const items = await service.getLowStock(2);
+
+      expect(items).toEqual([
+        expect.objectContaining({ productId: 'p1', stock: 0, threshold: 0 }),
+        expect.objectContaining({ productId: 'p2', variantId: 'v2', stock: 0, threshold: 10 }),
+      ]);
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like, In, Between, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import { Repository, EntityManager, Like, In, Between, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
 import { Product, ProductStatus } from './entities/product.entity';
 import { ProductImage } from './entities/product-image.entity';
 import { ProductVariant } from './entities/product-variant.entity';
@@ -8,6 +8,18 @@ import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { QueryProductsDto } from './dto/query-products.dto';
 import { CategoriesService } from '../categories/categories.service';
+import { StockReservationsService } from './stock-reservations.service';
+
+export interface LowStockItem {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  sku?: string;
+  imageUrl?: string;
+  stock: number;
+  threshold: number;
+}
 
 @Injectable()
 export class ProductsService {
@@ -19,8 +31,12 @@ export class ProductsService {
     @InjectRepository(ProductVariant)
     private variantsRepository: Repository<ProductVariant>,
     private categoriesService: CategoriesService,
+    private stockReservationsService: StockReservationsService,
   ) { }
 
+  // Used for products that do not set their own lowStockThreshold
+  private readonly DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
   async create(createProductDto: CreateProductDto): Promise<Product> {
     const { images, variants, ...productData } = createProductDto;
 
@@ -56,6 +72,7 @@ export class ProductsService {
         });
       });
       await this.variantsRepository.save(productVariants);
+      await this.syncStockFromVariants(savedProduct.id);
     }
 
     return this.findOne(savedProduct.id);
@@ -158,6 +175,7 @@ export class ProductsService {
     queryBuilder.skip(skip).take(limit);
 
     const [products, total] = await queryBuilder.getManyAndCount();
+    await this.applyAvailability(products);
 
     // Sort images in memory to avoid potential join order issues during count/pagination
     products.forEach(product => {
@@ -185,6 +203,7 @@ export class ProductsService {
     if (!product) {
       throw new NotFoundException('Product not found');
     }
+    await this.applyAvailability([product]);
     return product;
   }
 
@@ -196,6 +215,7 @@ export class ProductsService {
     if (!product) {
       throw new NotFoundException('Product not found');
     }
+    await this.applyAvailability([product]);
     return product;
   }
 
@@ -244,6 +264,7 @@ export class ProductsService {
       });
       await this.variantsRepository.save(productVariants);
     }
+    await this.syncStockFromVariants(id);
 
     return this.findOne(id);
   }
@@ -255,12 +276,152 @@ export class ProductsService {
 
   async updateStock(id: string, quantity: number): Promise<Product> {
     const product = await this.findOne(id);
+    if (product.variants?.length) {
+      throw new BadRequestException('Stock of a product with variants is set per variant');
+    }
     product.stock = quantity;
     return this.productsRepository.save(product);
   }
 
-  async decrementStock(id: string, quantity: number): Promise<void> {
-    await this.productsRepository.decrement({ id }, 'stock', quantity);
+  async updateVariantStock(id: string, variantId: string, quantity: number): Promise<Product> {
+    const variant = await this.variantsRepository.findOne({ where: { id: variantId, productId: id } });
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+    variant.stock = quantity;
+    await this.variantsRepository.save(variant);
+    await this.syncStockFromVariants(id);
+    return this.findOne(id);
+  }
+
+  /**
+   * Take stock for a sale. When a variant is given its stock is taken and the
+   * product's stock follows as the sum of its variants.
+   */
+  async decrementStock(id: string, quantity: number, variantId?: string | null, manager?: EntityManager): Promise<void> {
+    if (variantId) {
+      const variants = manager ? manager.getRepository(ProductVariant) : this.variantsRepository;
+      await variants.decrement({ id: variantId, productId: id }, 'stock', quantity);
+      await this.syncStockFromVariants(id, manager);
+      return;
+    }
+    const repository = manager ? manager.getRepository(Product) : this.productsRepository;
+    await repository.decrement({ id }, 'stock', quantity);
+  }
+
+  async incrementStock(id: string, quantity: number, variantId?: string | null, manager?: EntityManager): Promise<void> {
+    if (variantId) {
+      const variants = manager ? manager.getRepository(ProductVariant) : this.variantsRepository;
+      await variants.increment({ id: variantId, productId: id }, 'stock', quantity);
+      await this.syncStockFromVariants(id, manager);
+      return;
+    }
+    const repository = manager ? manager.getRepository(Product) : this.productsRepository;
+    await repository.increment({ id }, 'stock', quantity);
+  }
+
+  /**
+   * Load products with a row lock held until the surrounding transaction ends.
+   * Rows are locked in ID order so concurrent callers cannot deadlock. Variants
+   * are loaded as well; their stock only changes under the product's lock.
+   */
+  async findForUpdate(ids: string[], manager: EntityManager): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const products = await manager
+      .getRepository(Product)
+      .createQueryBuilder('product')
+      .setLock('pessimistic_write')
+      .whereInIds(ids)
+      .orderBy('product.id')
+      .getMany();
+    const variants = await manager.getRepository(ProductVariant).find({ where: { productId: In(ids) } });
+    for (const product of products) {
+      product.variants = variants.filter((variant) => variant.productId === product.id);
+    }
+    return products;
+  }
+
+  /**
+   * Throws when the product, or the variant if one is given, cannot cover the
+   * quantity. Reservations count against it unless the caller is the one holding them.
+   */
+  assertInStock(product: Product, quantity: number, variant?: ProductVariant | null, ignoreReservations = false): void {
+    if (!product.trackInventory || product.allowBackorder) {
+      return;
+    }
+    const unit = variant ?? product;
+    const available = ignoreReservations ? unit.stock : unit.availableStock ?? unit.stock;
+    if (available < quantity) {
+      const name = variant ? `${product.name} (${variant.name})` : product.name;
+      throw new BadRequestException(`Insufficient stock for ${name}: ${Math.max(available, 0)} available, ${quantity} requested`);
+    }
+  }
+
+  /**
+   * Products and variants at or below their low-stock threshold. A product with
+   * variants is reported per variant, since that is what runs out.
+   */
+  async getLowStock(limit = 20): Promise<LowStockItem[]> {
+    const statuses = [ProductStatus.DRAFT, ProductStatus.PUBLISHED];
+    const threshold = 'COALESCE(product.lowStockThreshold, :defaultThreshold)';
+    const parameters = { statuses, defaultThreshold: this.DEFAULT_LOW_STOCK_THRESHOLD };
+
+    const products = await this.productsRepository
+      .createQueryBuilder('product')
+      .leftJoinAndSelect('product.images', 'image')
+      .where('product.trackInventory = true')
+      .andWhere('product.status IN (:...statuses)')
+      .andWhere(`product.stock <= ${threshold}`)
+      .andWhere((qb) => {
+        const variants = qb.subQuery().select('1').from(ProductVariant, 'variant').where('variant.productId = product.id');
+        return `NOT EXISTS ${variants.getQuery()}`;
+      })
+      .setParameters(parameters)
+      .orderBy('product.stock', 'ASC')
+      .take(limit)
+      .getMany();
+
+    const variants = await this.variantsRepository
+      .createQueryBuilder('variant')
+      .innerJoinAndSelect('variant.product', 'product')
+      .leftJoinAndSelect('product.images', 'image')
+      .where('variant.isActive = true')
+      .andWhere('product.trackInventory = true')
+      .andWhere('product.status IN (:...statuses)')
+      .andWhere(`variant.stock <= ${threshold}`)
+      .setParameters(parameters)
+      .orderBy('variant.stock', 'ASC')
+      .take(limit)
+      .getMany();
+
+    const items: LowStockItem[] = [
+      ...products.map((product) => ({
+        productId: product.id,
+        productName: product.name,
+        sku: product.sku,
+        imageUrl: this.getPrimaryImageUrl(product),
+        stock: product.stock,
+        threshold: product.lowStockThreshold ?? this.DEFAULT_LOW_STOCK_THRESHOLD,
+      })),
+      ...variants.map((variant) => ({
+        productId: variant.product.id,
+        productName: variant.product.name,
+        variantId: variant.id,
+        variantName: variant.name,
+        sku: variant.sku || variant.product.sku,
+        imageUrl: variant.imageUrl || this.getPrimaryImageUrl(variant.product),
+        stock: variant.stock,
+        threshold: variant.product.lowStockThreshold ?? this.DEFAULT_LOW_STOCK_THRESHOLD,
+      })),
+    ];
+
+    return items.sort((a, b) => a.stock - b.stock).slice(0, limit);
+  }
+
+  private getPrimaryImageUrl(product: Product): string | undefined {
+    return product.images?.find((image) => image.isPrimary)?.url ?? product.images?.[0]?.url;
   }
 
   private featuredProductsCache: { data: Product[], timestamp: number } | null = null;
@@ -269,7 +430,8 @@ export class ProductsService {
   async getFeaturedProducts(limit = 8): Promise<Product[]> {
     const now = Date.now();
     if (this.featuredProductsCache && (now - this.featuredProductsCache.timestamp) < this.CACHE_TTL) {
-      return this.featuredProductsCache.data.slice(0, limit);
+      // Reservations change far more often than the featured list
+      return this.applyAvailability(this.featuredProductsCache.data.slice(0, limit));
     }
 
     const products = await this.productsRepository.find({
@@ -280,7 +442,7 @@ export class ProductsService {
     });
 
     this.featuredProductsCache = { data: products, timestamp: now };
-    return products;
+    return this.applyAvailability(products);
   }
 
   async getRelatedProducts(productId: string, limit = 4): Promise<Product[]> {
@@ -294,7 +456,49 @@ export class ProductsService {
       relations: ['images'],
       order: { createdAt: 'DESC', id: 'ASC' },
       take: limit + 1,
-    }).then((products) => products.filter((p) => p.id !== productId).slice(0, limit));
+    }).then((products) => this.applyAvailability(products.filter((p) => p.id !== productId).slice(0, limit)));
+  }
+
+  /**
+   * Fill in reservedStock and availableStock so responses (and inStock) account for
+   * stock held by checkouts that are waiting for payment. Loaded variants get theirs too,
+   * as do any extra variants of these products passed in.
+   */
+  async applyAvailability(
+    products: Product[],
+    excludeCartId?: string,
+    variants: ProductVariant[] = [],
+    manager?: EntityManager,
+  ): Promise<Product[]> {
+    const reserved = await this.stockReservationsService.getReservedQuantities(
+      products.map((product) => product.id),
+      excludeCartId,
+      manager,
+    );
+    for (const product of products) {
+      product.reservedStock = reserved.products.get(product.id) || 0;
+      product.availableStock = Math.max(product.stock - product.reservedStock, 0);
+    }
+    for (const variant of [...products.flatMap((product) => product.variants ?? []), ...variants]) {
+      variant.reservedStock = reserved.variants.get(variant.id) || 0;
+      variant.availableStock = Math.max(variant.stock - variant.reservedStock, 0);
+    }
+    return products;
+  }
+
+  /**
+   * A product with variants has no stock of its own; keep its stock column at the
+   * sum of its active variants so listings and sorting stay accurate.
+   */
+  private async syncStockFromVariants(productId: string, manager?: EntityManager): Promise<void> {
+    const variants = await (manager ? manager.getRepository(ProductVariant) : this.variantsRepository).find({
+      where: { productId },
+    });
+    if (variants.length === 0) {
+      return;
+    }
+    const stock = variants.filter((variant) => variant.isActive).reduce((sum, variant) => sum + variant.stock, 0);
+    await (manager ? manager.getRepository(Product) : this.productsRepository).update({ id: productId }, { stock });
   }
 
   private generateSlug(name: string): string {
@@ -0,0 +1,171 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { Product } from './entities/product.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import { StockReservation, StockReservationStatus } from './entities/stock-reservation.entity';
+import { StockReservationsService } from './stock-reservations.service';
+
+// Query builder stand-in whose chained calls all return itself
+function queryBuilder(result: Record<string, unknown>) {
+  const builder: Record<string, jest.Mock> = {};
+  for (const method of ['select', 'addSelect', 'where', 'andWhere', 'groupBy', 'addGroupBy', 'setLock', 'whereInIds', 'orderBy']) {
+    builder[method] = jest.fn(() => builder);
+  }
+  for (const [method, value] of Object.entries(result)) {
+    builder[method] = jest.fn().mockResolvedValue(value);
+  }
+  return builder;
+}
+
+function product(overrides: Partial<Product> = {}): Product {
+  return { id: 'p1', name: 'Mug', stock: 5, trackInventory: true, allowBackorder: false, ...overrides } as Product;
+}
+
+describe('StockReservationsService', () => {
+  let service: StockReservationsService;
+  let reservations: {
+    update: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let products: Product[];
+  let variants: ProductVariant[];
+  let reservedRows: { productId: string; variantId: string | null; quantity: string }[];
+
+  beforeEach(async () => {
+    products = [product()];
+    variants = [];
+    reservedRows = [];
+    reservations = {
+      update: jest.fn(),
+      create: jest.fn((values) => values),
+      save: jest.fn(async (values) => values),
+      createQueryBuilder: jest.fn(() => queryBuilder({ getRawMany: reservedRows })),
+    };
+
+    const manager = {
+      getRepository: jest.fn((entity) => {
+        if (entity === StockReservation) {
+          return reservations;
+        }
+        if (entity === Product) {
+          return { createQueryBuilder: () => queryBuilder({ getMany: products }) };
+        }
+        return { find: jest.fn().mockResolvedValue(variants) };
+      }),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StockReservationsService,
+        {
+          provide: getRepositoryToken(StockReservation),
+          useValue: { ...reservations, manager: { transaction: jest.fn((work) => work(manager)) } },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: ConfigurationService, useValue: { get: jest.fn().mockResolvedValue('15') } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(StockReservationsService);
+  });
+
+  describe('reserve', () => {
+    it('holds stock the other checkouts have left', async () => {
+      reservedRows = [{ productId: 'p1', variantId: null, quantity: '3' }];
+
+      const saved = await service.reserve('pi_1', 'cart-1', [{ productId: 'p1', quantity: 2, price: 9.9 }]);
+
+      expect(saved).toEqual([
+        expect.objectContaining({ productId: 'p1', quantity: 2, price: 9.9, paymentIntentId: 'pi_1', cartId: 'cart-1' }),
+      ]);
+      expect(saved[0].expiresAt.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+    });
+
+    it('drops the earlier holds of the same cart first', async () => {
+      await service.reserve('pi_2', 'cart-1', [{ productId: 'p1', quantity: 1 }]);
+
+      expect(reservations.update).toHaveBeenCalledWith(
+        { cartId: 'cart-1', status: StockReservationStatus.ACTIVE },
+        { status: StockReservationStatus.RELEASED },
+      );
+    });
+
+    it('refuses stock that other checkouts are holding', async () => {
+      reservedRows = [{ productId: 'p1', variantId: null, quantity: '4' }];
+
+      await expect(service.reserve('pi_1', 'cart-1', [{ productId: 'p1', quantity: 2 }])).rejects.toThrow(
+        new BadRequestException('Only 1 of Mug available'),
+      );
+      expect(reservations.save).not.toHaveBeenCalled();
+    });
+
+    it('adds up lines of the same product', async () => {
+      await expect(
+        service.reserve('pi_1', undefined, [
+          { productId: 'p1', quantity: 3 },
+          { productId: 'p1', quantity: 3 },
+        ]),
+      ).rejects.toThrow('Only 5 of Mug available');
+    });
+
+    it('checks variant lines against the variant', async () => {
+      products = [product({ stock: 10 })];
+      variants = [{ id: 'v1', productId: 'p1', name: 'Blue', stock: 2 } as ProductVariant];
+      reservedRows = [{ productId: 'p1', variantId: 'v1', quantity: '2' }];
+
+      await expect(service.reserve('pi_1', 'cart-1', [{ productId: 'p1', variantId: 'v1', quantity: 1 }])).rejects.toThrow(
+        'Mug (Blue) is out of stock',
+      );
+    });
+
+    it('does not limit products sold on backorder or without inventory', async () => {
+      products = [product({ id: 'p1', stock: 0, allowBackorder: true }), product({ id: 'p2', stock: 0, trackInventory: false })];
+
+      await expect(
+        service.reserve('pi_1', 'cart-1', [
+          { productId: 'p1', quantity: 4 },
+          { productId: 'p2', quantity: 4 },
+        ]),
+      ).resolves.toHaveLength(2);
+    });
+  });
+
+  describe('getReservedQuantities', () => {
+    it('counts variant holds against their product as well', async () => {
+      reservedRows = [
+        { productId: 'p1', variantId: 'v1', quantity: '2' },
+        { productId: 'p1', variantId: 'v2', quantity: '1' },
+        { productId: 'p2', variantId: null, quantity: '4' },
+      ];
+
+      const reserved = await service.getReservedQuantities(['p1', 'p2']);
+
+      expect(reserved.products).toEqual(new Map([['p1', 3], ['p2', 4]]));
+      expect(reserved.variants).toEqual(new Map([['v1', 2], ['v2', 1]]));
+    });
+
+    it('leaves out the holds of the given cart', async () => {
+      const builder = queryBuilder({ getRawMany: [] });
+      reservations.createQueryBuilder.mockReturnValue(builder);
+
+      await service.getReservedQuantities(['p1'], 'cart-1');
+
+      expect(builder.andWhere).toHaveBeenCalledWith(
+        '(reservation.cartId IS NULL OR reservation.cartId != :excludeCartId)',
+        { excludeCartId: 'cart-1' },
+      );
+    });
+
+    it('does not query for no products', async () => {
+      const reserved = await service.getReservedQuantities([]);
+
+      expect(reserved.products.size).toBe(0);
+      expect(reservations.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, In, LessThanOrEqual, MoreThan } from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import { StockReservation, StockReservationStatus } from './entities/stock-reservation.entity';
+import { ConfigurationService } from '../configuration/configuration.service';
+
+export interface ReservationLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price?: number;
+}
+
+export interface ReservedQuantities {
+  products: Map<string, number>;
+  variants: Map<string, number>;
+}
+
+@Injectable()
+export class StockReservationsService {
+  constructor(
+    @InjectRepository(StockReservation)
+    private reservationsRepository: Repository<StockReservation>,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+  ) { }
+
+  // How long a checkout may hold stock before paying
+  private readonly DEFAULT_RESERVATION_MINUTES = 15;
+
+  /**
+   * Hold stock for a checkout. Any earlier reservations of the same cart are
+   * released first, so starting checkout again does not count twice.
+   * Throws when a product, or for variant lines the variant, does not have enough
+   * unreserved stock.
+   */
+  async reserve(paymentIntentId: string, cartId: string | undefined, lines: ReservationLine[]): Promise<StockReservation[]> {
+    const minutes = await this.getReservationMinutes();
+
+    return this.reservationsRepository.manager.transaction(async (manager) => {
+      const reservations = manager.getRepository(StockReservation);
+      const now = new Date();
+
+      await reservations.update(
+        { status: StockReservationStatus.ACTIVE, expiresAt: LessThanOrEqual(now) },
+        { status: StockReservationStatus.EXPIRED },
+      );
+      if (cartId) {
+        await reservations.update(
+          { cartId, status: StockReservationStatus.ACTIVE },
+          { status: StockReservationStatus.RELEASED },
+        );
+      }
+
+      const quantities = new Map<string, number>();
+      const variantQuantities = new Map<string, number>();
+      for (const line of lines) {
+        quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+        if (line.variantId) {
+          variantQuantities.set(line.variantId, (variantQuantities.get(line.variantId) || 0) + line.quantity);
+        }
+      }
+      const productIds = [...quantities.keys()];
+
+      // Lock the products so two checkouts cannot both take the last unit
+      const products = await manager
+        .getRepository(Product)
+        .createQueryBuilder('product')
+        .setLock('pessimistic_write')
+        .whereInIds(productIds)
+        .orderBy('product.id')
+        .getMany();
+      const variants = variantQuantities.size
+        ? await manager.getRepository(ProductVariant).find({ where: { id: In([...variantQuantities.keys()]) } })
+        : [];
+      const reserved = await this.sumActive(reservations, productIds);
+
+      for (const product of products) {
+        if (!product.trackInventory || product.allowBackorder) {
+          continue;
+        }
+        this.assertAvailable(
+          product.name,
+          product.stock - (reserved.products.get(product.id) || 0),
+          quantities.get(product.id) || 0,
+        );
+        for (const variant of variants.filter((v) => v.productId === product.id)) {
+          this.assertAvailable(
+            `${product.name} (${variant.name})`,
+            variant.stock - (reserved.variants.get(variant.id) || 0),
+            variantQuantities.get(variant.id) || 0,
+          );
+        }
+      }
+
+      const expiresAt = new Date(now.getTime() + minutes * 60 * 1000);
+      return reservations.save(
+        lines.map((line) =>
+          reservations.create({
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+            price: line.price ?? null,
+            paymentIntentId,
+            cartId,
+            expiresAt,
+          }),
+        ),
+      );
+    });
+  }
+
+  /**
+   * The order took the stock for real; the reservation is no longer needed.
+   */
+  async convert(paymentIntentId: string, manager?: EntityManager): Promise<void> {
+    const repository = manager ? manager.getRepository(StockReservation) : this.reservationsRepository;
+    await repository.update(
+      { paymentIntentId, status: In([StockReservationStatus.ACTIVE, StockReservationStatus.EXPIRED]) },
+      { status: StockReservationStatus.CONVERTED },
+    );
+  }
+
+  /**
+   * The lines a checkout reserved, whatever became of the reservations since.
+   */
+  async findLines(paymentIntentId: string): Promise<ReservationLine[]> {
+    const reservations = await this.reservationsRepository.find({
+      where: { paymentIntentId },
+      order: { createdAt: 'ASC' },
+    });
+    return reservations.map((reservation) => ({
+      productId: reservation.productId,
+      variantId: reservation.variantId || undefined,
+      quantity: reservation.quantity,
+      price: reservation.price === null ? undefined : Number(reservation.price),
+    }));
+  }
+
+  async release(paymentIntentId: string): Promise<void> {
+    await this.reservationsRepository.update(
+      { paymentIntentId, status: StockReservationStatus.ACTIVE },
+      { status: StockReservationStatus.RELEASED },
+    );
+  }
+
+  /**
+   * Drop the holds of a cart that became an order without its card checkout, e.g. when
+   * the customer switched to bank transfer.
+   */
+  async releaseCart(cartId: string, manager?: EntityManager): Promise<void> {
+    const repository = manager ? manager.getRepository(StockReservation) : this.reservationsRepository;
+    await repository.update(
+      { cartId, status: StockReservationStatus.ACTIVE },
+      { status: StockReservationStatus.RELEASED },
+    );
+  }
+
+  /**
+   * Reserved quantity per product and per variant. A cart's own reservations can
+   * be left out so its owner still sees the stock they are paying for.
+   */
+  async getReservedQuantities(
+    productIds: string[],
+    excludeCartId?: string,
+    manager?: EntityManager,
+  ): Promise<ReservedQuantities> {
+    if (productIds.length === 0) {
+      return { products: new Map(), variants: new Map() };
+    }
+    const repository = manager ? manager.getRepository(StockReservation) : this.reservationsRepository;
+    return this.sumActive(repository, productIds, excludeCartId);
+  }
+
+  private assertAvailable(name: string, available: number, wanted: number): void {
+    if (wanted > available) {
+      throw new BadRequestException(
+        available > 0 ? `Only ${available} of ${name} available` : `${name} is out of stock`,
+      );
+    }
+  }
+
+  private async sumActive(
+    repository: Repository<StockReservation>,
+    productIds: string[],
+    excludeCartId?: string,
+  ): Promise<ReservedQuantities> {
+    const queryBuilder = repository
+      .createQueryBuilder('reservation')
+      .select('reservation.productId', 'productId')
+      .addSelect('reservation.variantId', 'variantId')
+      .addSelect('SUM(reservation.quantity)', 'quantity')
+      .where({
+        productId: In(productIds),
+        status: StockReservationStatus.ACTIVE,
+        expiresAt: MoreThan(new Date()),
+      })
+      .groupBy('reservation.productId')
+      .addGroupBy('reservation.variantId');
+
+    if (excludeCartId) {
+      queryBuilder.andWhere('(reservation.cartId IS NULL OR reservation.cartId != :excludeCartId)', { excludeCartId });
+    }
+
+    const rows: { productId: string; variantId: string | null; quantity: string }[] = await queryBuilder.getRawMany();
+
+    // A variant reservation also holds stock of its product, whose stock is the sum of its variants
+    const reserved: ReservedQuantities = { products: new Map(), variants: new Map() };
+    for (const row of rows) {
+      const quantity = Number(row.quantity);
+      reserved.products.set(row.productId, (reserved.products.get(row.productId) || 0) + quantity);
+      if (row.variantId) {
+        reserved.variants.set(row.variantId, quantity);
+      }
+    }
+    return reserved;
+  }
+
+  private async getReservationMinutes(): Promise<number> {
+    const value =
+      (await this.configurationService.get('STOCK_RESERVATION_MINUTES')) ??
+      this.configService.get<string>('STOCK_RESERVATION_MINUTES');
+    const minutes = Number(value);
+    return value && minutes > 0 ? minutes : this.DEFAULT_RESERVATION_MINUTES;
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  IsString,
+  IsUUID,
+  IsOptional,
+  IsInt,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReturnReason, ItemCondition } from '../entities/return-request-item.entity';
+
+// Staff open these links, so only our own uploads are accepted
+export const RETURN_PHOTO_URL = /^\/uploads\/returns\/[0-9a-f-]+\.(jpe?g|png|webp|heic)$/i;
+
+export class ReturnItemDto {
+  @ApiProperty()
+  @IsUUID()
+  orderItemId: string;
+
+  @ApiProperty({ minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ enum: ReturnReason })
+  @IsEnum(ReturnReason)
+  reason: ReturnReason;
+
+  @ApiProperty({ enum: ItemCondition })
+  @IsEnum(ItemCondition)
+  condition: ItemCondition;
+}
+
+export class CreateReturnRequestDto {
+  @ApiProperty()
+  @IsUUID()
+  orderId: string;
+
+  @ApiProperty({ type: [ReturnItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReturnItemDto)
+  items: ReturnItemDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  customerNote?: string;
+
+  @ApiPropertyOptional({ description: 'URLs returned by POST /returns/photos', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @IsString({ each: true })
+  @Matches(RETURN_PHOTO_URL, { each: true, message: 'photos must be URLs returned by POST /returns/photos' })
+  photos?: string[];
+}
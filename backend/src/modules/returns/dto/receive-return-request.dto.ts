@@ -0,0 +1,55 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsNumber,
+  IsArray,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ItemCondition } from '../entities/return-request-item.entity';
+
+export class ReceivedItemDto {
+  @ApiProperty({ description: 'Return request item ID' })
+  @IsUUID()
+  id: string;
+
+  @ApiPropertyOptional({ enum: ItemCondition })
+  @IsOptional()
+  @IsEnum(ItemCondition)
+  condition?: ItemCondition;
+
+  @ApiPropertyOptional({ description: 'Put the item back into stock', default: false })
+  @IsOptional()
+  @IsBoolean()
+  restock?: boolean;
+}
+
+export class ReceiveReturnRequestDto {
+  @ApiPropertyOptional({ type: [ReceivedItemDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedItemDto)
+  items?: ReceivedItemDto[];
+
+  @ApiPropertyOptional({ description: 'Refund the returned items through the original payment', default: false })
+  @IsOptional()
+  @IsBoolean()
+  refund?: boolean;
+
+  @ApiPropertyOptional({ description: 'Override the refund amount (e.g. deduct for damage). Defaults to the item value.' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  refundAmount?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveReturnRequestDto {
+  @ApiPropertyOptional({ description: 'Return instructions shown to the customer' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class RejectReturnRequestDto {
+  @ApiProperty({ description: 'Why the return was rejected, shown to the customer' })
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+} from 'typeorm';
+import { ReturnRequest } from './return-request.entity';
+import { OrderItem } from '../../orders/entities/order-item.entity';
+
+export enum ReturnReason {
+  WRONG_SIZE = 'wrong_size',
+  DEFECTIVE = 'defective',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  WRONG_ITEM = 'wrong_item',
+  CHANGED_MIND = 'changed_mind',
+  OTHER = 'other',
+}
+
+export enum ItemCondition {
+  UNOPENED = 'unopened',
+  UNUSED = 'unused',
+  USED = 'used',
+  DAMAGED = 'damaged',
+}
+
+@Entity('return_request_items')
+export class ReturnRequestItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => ReturnRequest, (request) => request.items, { onDelete: 'CASCADE' })
+  returnRequest: ReturnRequest;
+
+  @Column()
+  returnRequestId: string;
+
+  @ManyToOne(() => OrderItem, { onDelete: 'CASCADE' })
+  orderItem: OrderItem;
+
+  @Column()
+  orderItemId: string;
+
+  @Column()
+  quantity: number;
+
+  @Column({ type: 'enum', enum: ReturnReason })
+  reason: ReturnReason;
+
+  // As reported by the customer
+  @Column({ type: 'enum', enum: ItemCondition })
+  condition: ItemCondition;
+
+  // As found by the warehouse on receipt
+  @Column({ type: 'enum', enum: ItemCondition, nullable: true })
+  receivedCondition: ItemCondition;
+
+  @Column({ default: false })
+  restocked: boolean;
+}
@@ -0,0 +1,95 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+import { User } from '../../users/entities/user.entity';
+import { ReturnRequestItem } from './return-request-item.entity';
+
+export enum ReturnStatus {
+  REQUESTED = 'requested',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  RECEIVED = 'received',
+}
+
+@Entity('return_requests')
+export class ReturnRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Human readable reference printed on the return label, e.g. RMA-2026-00042
+  @Column({ unique: true })
+  returnNumber: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Index()
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  user: User;
+
+  @Column({ nullable: true })
+  userId: string;
+
+  @OneToMany(() => ReturnRequestItem, (item) => item.returnRequest, { cascade: true })
+  items: ReturnRequestItem[];
+
+  @Column({
+    type: 'enum',
+    enum: ReturnStatus,
+    default: ReturnStatus.REQUESTED,
+  })
+  status: ReturnStatus;
+
+  @Column({ type: 'text', nullable: true })
+  customerNote: string;
+
+  // Upload URLs (/uploads/returns/...)
+  @Column({ type: 'jsonb', default: [] })
+  photos: string[];
+
+  // Staff comment shown to the customer (approval instructions, rejection reason)
+  @Column({ type: 'text', nullable: true })
+  staffNote: string;
+
+  @Column({ nullable: true })
+  reviewedById: string;
+
+  @Column({ nullable: true })
+  reviewedByName: string;
+
+  @Column({ nullable: true })
+  reviewedAt: Date;
+
+  @Column({ nullable: true })
+  receivedById: string;
+
+  @Column({ nullable: true })
+  receivedByName: string;
+
+  @Column({ nullable: true })
+  receivedAt: Date;
+
+  // Refund issued when the parcel was received
+  @Column({ nullable: true })
+  refundId: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  refundAmount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { diskStorage } from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { ReturnsService } from './returns.service';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { ApproveReturnRequestDto, RejectReturnRequestDto } from './dto/review-return-request.dto';
+import { ReceiveReturnRequestDto } from './dto/receive-return-request.dto';
+import { ReturnStatus } from './entities/return-request.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+
+const photoStorage = diskStorage({
+  destination: './uploads/returns',
+  filename: (req, file, callback) => {
+    // The extension follows the checked type, never the client's file name
+    const uniqueName = `${uuidv4()}.${file.mimetype.split('/')[1]}`;
+    callback(null, uniqueName);
+  },
+});
+
+const imageFileFilter = (req: any, file: Express.Multer.File, callback: any) => {
+  if (!file.mimetype.match(/\/(jpg|jpeg|png|webp|heic)$/)) {
+    return callback(new BadRequestException('Only image files are allowed'), false);
+  }
+  callback(null, true);
+};
+
+@ApiTags('returns')
+@Controller('returns')
+export class ReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Request a return for items of a delivered order' })
+  create(@Request() req: any, @Body() createDto: CreateReturnRequestDto) {
+    return this.returnsService.create(createDto, req.user);
+  }
+
+  @Post('photos')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Upload photos to attach to a return request' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'array',
+          items: {
+            type: 'string',
+            format: 'binary',
+          },
+        },
+      },
+    },
+  })
+  @UseInterceptors(
+    FilesInterceptor('files', 6, {
+      storage: photoStorage,
+      fileFilter: imageFileFilter,
+      limits: { fileSize: 5 * 1024 * 1024 }, // 5MB per file
+    }),
+  )
+  uploadPhotos(@UploadedFiles() files: Express.Multer.File[]) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files uploaded');
+    }
+    return files.map((file) => ({
+      url: `/uploads/returns/${file.filename}`,
+      filename: file.filename,
+    }));
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the return queue (admin only)' })
+  @ApiQuery({ name: 'status', required: false, enum: ReturnStatus })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  findAll(
+    @Query('status') status?: ReturnStatus,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.returnsService.findAll(status, page, limit);
+  }
+
+  @Get('order/:orderId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get return requests for an order (owner or admin)' })
+  findByOrder(@Param('orderId') orderId: string, @Request() req: any) {
+    return this.returnsService.findByOrder(orderId, req.user);
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get return request by ID (owner or admin)' })
+  findOne(@Param('id') id: string, @Request() req: any) {
+    return this.returnsService.findOne(id, req.user);
+  }
+
+  @Post(':id/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Approve a return request (admin only)' })
+  approve(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() approveDto: ApproveReturnRequestDto,
+  ) {
+    return this.returnsService.approve(id, approveDto, req.user);
+  }
+
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a return request (admin only)' })
+  reject(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() rejectDto: RejectReturnRequestDto,
+  ) {
+    return this.returnsService.reject(id, rejectDto, req.user);
+  }
+
+  @Post(':id/receive')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Book in a returned parcel, optionally restocking and refunding (admin only)' })
+  receive(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body() receiveDto: ReceiveReturnRequestDto,
+  ) {
+    return this.returnsService.receive(id, receiveDto, req.user);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ReturnRequest } from './entities/return-request.entity';
+import { ReturnRequestItem } from './entities/return-request-item.entity';
+import { ReturnsService } from './returns.service';
+import { ReturnsController } from './returns.controller';
+import { OrdersModule } from '../orders/orders.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { ConfigurationModule } from '../configuration/configuration.module';
+import { SequencesModule } from '../sequences/sequences.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReturnRequest, ReturnRequestItem]),
+    OrdersModule,
+    PaymentsModule,
+    ConfigurationModule,
+    SequencesModule,
+  ],
+  providers: [ReturnsService],
+  controllers: [ReturnsController],
+  exports: [ReturnsService],
+})
+export class ReturnsModule {}
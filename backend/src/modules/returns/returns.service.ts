@@ -0,0 +1,298 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Not, EntityManager } from 'typeorm';
+import { ReturnRequest, ReturnStatus } from './entities/return-request.entity';
+import { ReturnRequestItem } from './entities/return-request-item.entity';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { ApproveReturnRequestDto, RejectReturnRequestDto } from './dto/review-return-request.dto';
+import { ReceiveReturnRequestDto } from './dto/receive-return-request.dto';
+import { OrdersService } from '../orders/orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { OrderStatus, PaymentStatus } from '../orders/entities/order.entity';
+import { OrderActor, getActorName } from '../orders/interfaces/order-actor.interface';
+import { UserRole } from '../users/entities/user.entity';
+
+@Injectable()
+export class ReturnsService {
+  constructor(
+    @InjectRepository(ReturnRequest)
+    private returnsRepository: Repository<ReturnRequest>,
+    @InjectRepository(ReturnRequestItem)
+    private returnItemsRepository: Repository<ReturnRequestItem>,
+    private ordersService: OrdersService,
+    private paymentsService: PaymentsService,
+    private configService: ConfigService,
+    private configurationService: ConfigurationService,
+    private sequencesService: SequencesService,
+  ) { }
+
+  // Yearly counter shared by all orders, e.g. RMA-2026-00042
+  private readonly RETURN_NUMBER_FORMAT = 'RMA-{YYYY}-{SEQ:5}';
+
+  // Statutory EU withdrawal period
+  private readonly DEFAULT_RETURN_WINDOW_DAYS = 14;
+
+  // Only goods that have left the warehouse can be sent back
+  private readonly RETURNABLE_STATUSES = [OrderStatus.SHIPPED, OrderStatus.DELIVERED];
+
+  async create(dto: CreateReturnRequestDto, actor: OrderActor): Promise<ReturnRequest> {
+    const order = await this.ordersService.findOne(dto.orderId);
+    const isAdmin = actor.role === UserRole.ADMIN;
+
+    if (!isAdmin && order.userId !== actor.id) {
+      throw new ForbiddenException('You do not have permission to return items from this order');
+    }
+
+    if (!this.RETURNABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Items from an order with status "${order.status}" cannot be returned`);
+    }
+
+    if (!isAdmin) {
+      const windowDays = await this.getReturnWindowDays();
+      const since = order.deliveredAt ?? order.shippedAt ?? order.createdAt;
+      const deadline = new Date(since).getTime() + windowDays * 24 * 60 * 60 * 1000;
+      if (Date.now() > deadline) {
+        throw new BadRequestException(
+          `Returns must be requested within ${windowDays} days of delivery. Please contact support.`,
+        );
+      }
+    }
+
+    const alreadyRequested = await this.getRequestedQuantities(order.id);
+    const requested = new Map<string, number>();
+
+    for (const line of dto.items) {
+      const item = order.items.find((i) => i.id === line.orderItemId);
+      if (!item) {
+        throw new NotFoundException(`Order item ${line.orderItemId} not found on this order`);
+      }
+
+      requested.set(item.id, (requested.get(item.id) ?? 0) + line.quantity);
+      const available = item.quantity - (alreadyRequested.get(item.id) ?? 0);
+      if (requested.get(item.id)! > available) {
+        throw new BadRequestException(
+          available > 0
+            ? `Only ${available} x ${item.productName} can still be returned`
+            : `${item.productName} has already been returned`,
+        );
+      }
+    }
+
+    // The number is only used up if the request is stored
+    const saved = await this.returnsRepository.manager.transaction(async (manager) =>
+      manager.save(
+        this.returnsRepository.create({
+          returnNumber: await this.generateReturnNumber(manager),
+          orderId: order.id,
+          userId: order.userId,
+          customerNote: dto.customerNote,
+          photos: dto.photos ?? [],
+          items: dto.items.map((line) => this.returnItemsRepository.create({
+            orderItemId: line.orderItemId,
+            quantity: line.quantity,
+            reason: line.reason,
+            condition: line.condition,
+          })),
+        }),
+      ),
+    );
+    return this.findOne(saved.id);
+  }
+
+  async findAll(status?: ReturnStatus, page = 1, limit = 20) {
+    const queryBuilder = this.returnsRepository
+      .createQueryBuilder('return')
+      .leftJoinAndSelect('return.order', 'order')
+      .leftJoinAndSelect('return.items', 'items')
+      .leftJoinAndSelect('items.orderItem', 'orderItem')
+      .orderBy('return.createdAt', 'DESC');
+
+    if (status) {
+      queryBuilder.where('return.status = :status', { status });
+    }
+
+    const skip = (page - 1) * limit;
+    queryBuilder.skip(skip).take(limit);
+
+    const [returns, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data: returns,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(id: string, actor?: OrderActor): Promise<ReturnRequest> {
+    const returnRequest = await this.returnsRepository.findOne({
+      where: { id },
+      relations: ['order', 'items', 'items.orderItem'],
+    });
+
+    if (!returnRequest) {
+      throw new NotFoundException('Return request not found');
+    }
+
+    if (actor && actor.role !== UserRole.ADMIN && returnRequest.userId !== actor.id) {
+      throw new ForbiddenException('You do not have permission to view this return request');
+    }
+
+    return returnRequest;
+  }
+
+  async findByOrder(orderId: string, actor: OrderActor): Promise<ReturnRequest[]> {
+    const order = await this.ordersService.findOne(orderId);
+
+    if (actor.role !== UserRole.ADMIN && order.userId !== actor.id) {
+      throw new ForbiddenException('You do not have permission to view returns for this order');
+    }
+
+    return this.returnsRepository.find({
+      where: { orderId },
+      relations: ['items', 'items.orderItem'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async approve(id: string, dto: ApproveReturnRequestDto, actor: OrderActor): Promise<ReturnRequest> {
+    const returnRequest = await this.findOne(id);
+    this.assertStatus(returnRequest, [ReturnStatus.REQUESTED], 'approved');
+
+    returnRequest.status = ReturnStatus.APPROVED;
+    returnRequest.staffNote = dto.note ?? returnRequest.staffNote;
+    this.markReviewed(returnRequest, actor);
+
+    await this.returnsRepository.save(returnRequest);
+    return this.findOne(id);
+  }
+
+  async reject(id: string, dto: RejectReturnRequestDto, actor: OrderActor): Promise<ReturnRequest> {
+    const returnRequest = await this.findOne(id);
+    this.assertStatus(returnRequest, [ReturnStatus.REQUESTED, ReturnStatus.APPROVED], 'rejected');
+
+    returnRequest.status = ReturnStatus.REJECTED;
+    returnRequest.staffNote = dto.note;
+    this.markReviewed(returnRequest, actor);
+
+    await this.returnsRepository.save(returnRequest);
+    return this.findOne(id);
+  }
+
+  /**
+   * Book the returned parcel in: record the condition of each item,
+   * optionally put items back into stock and refund them.
+   * The refund is issued first so a Stripe failure leaves the return untouched.
+   */
+  async receive(id: string, dto: ReceiveReturnRequestDto, actor: OrderActor): Promise<ReturnRequest> {
+    const returnRequest = await this.findOne(id);
+    this.assertStatus(returnRequest, [ReturnStatus.APPROVED], 'received');
+
+    for (const received of dto.items ?? []) {
+      if (!returnRequest.items.some((item) => item.id === received.id)) {
+        throw new NotFoundException(`Item ${received.id} is not part of this return`);
+      }
+    }
+
+    const reason = dto.note || `Return ${returnRequest.returnNumber}`;
+
+    if (dto.refund) {
+      const order = await this.ordersService.findOne(returnRequest.orderId);
+      if (![PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(order.paymentStatus)) {
+        throw new BadRequestException(`Cannot refund an order with payment status "${order.paymentStatus}"`);
+      }
+
+      const refund = await this.paymentsService.refundOrder(
+        returnRequest.orderId,
+        {
+          items: returnRequest.items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+          amount: dto.refundAmount,
+          reason,
+        },
+        actor,
+      );
+      returnRequest.refundId = refund.id;
+      returnRequest.refundAmount = refund.amount;
+    }
+
+    const toRestock: ReturnRequestItem[] = [];
+    for (const item of returnRequest.items) {
+      const received = dto.items?.find((i) => i.id === item.id);
+      item.receivedCondition = received?.condition ?? item.condition;
+      if (received?.restock) {
+        item.restocked = true;
+        toRestock.push(item);
+      }
+    }
+
+    await this.ordersService.restockItems(
+      toRestock.map((item) => ({ item: item.orderItem, quantity: item.quantity })),
+    );
+
+    returnRequest.status = ReturnStatus.RECEIVED;
+    returnRequest.receivedAt = new Date();
+    returnRequest.receivedById = actor.id;
+    returnRequest.receivedByName = getActorName(actor) ?? '';
+    if (dto.note) {
+      returnRequest.staffNote = dto.note;
+    }
+
+    await this.returnsRepository.save(returnRequest);
+    return this.findOne(id);
+  }
+
+  private assertStatus(returnRequest: ReturnRequest, allowed: ReturnStatus[], target: string): void {
+    if (!allowed.includes(returnRequest.status)) {
+      throw new BadRequestException(
+        `A return with status "${returnRequest.status}" cannot be ${target}`,
+      );
+    }
+  }
+
+  private markReviewed(returnRequest: ReturnRequest, actor: OrderActor): void {
+    returnRequest.reviewedAt = new Date();
+    returnRequest.reviewedById = actor.id;
+    returnRequest.reviewedByName = getActorName(actor) ?? '';
+  }
+
+  /**
+   * Quantities per order item already covered by open or completed returns.
+   */
+  private async getRequestedQuantities(orderId: string): Promise<Map<string, number>> {
+    const requested = new Map<string, number>();
+    const returns = await this.returnsRepository.find({
+      where: { orderId, status: Not(ReturnStatus.REJECTED) },
+      relations: ['items'],
+    });
+
+    for (const item of returns.flatMap((r) => r.items)) {
+      requested.set(item.orderItemId, (requested.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+    return requested;
+  }
+
+  private async getReturnWindowDays(): Promise<number> {
+    const value =
+      (await this.configurationService.get('RETURN_WINDOW_DAYS')) ??
+      this.configService.get<string>('RETURN_WINDOW_DAYS');
+    const days = Number(value);
+    return value && !isNaN(days) ? days : this.DEFAULT_RETURN_WINDOW_DAYS;
+  }
+
+  private async generateReturnNumber(manager: EntityManager): Promise<string> {
+    const now = new Date();
+    const value = await this.sequencesService.next('return', now.getFullYear(), manager);
+    return this.sequencesService.format(this.RETURN_NUMBER_FORMAT, value, now);
+  }
+}
@@ -0,0 +1,20 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Counter row per document type and year (e.g. `order` / 2026).
+ * A new row is started every year so numbering restarts at 1.
+ */
+@Entity('sequences')
+export class Sequence {
+  @PrimaryColumn()
+  name: string;
+
+  @PrimaryColumn()
+  year: number;
+
+  @Column({ default: 0 })
+  value: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
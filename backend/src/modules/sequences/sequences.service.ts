@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { Sequence } from './entities/sequence.entity';
+
+@Injectable()
+export class SequencesService {
+  constructor(
+    @InjectRepository(Sequence)
+    private sequencesRepository: Repository<Sequence>,
+  ) { }
+
+  /**
+   * Reserve the next value of a yearly sequence.
+   *
+   * The upsert locks the counter row until the surrounding transaction ends,
+   * so concurrent callers queue up instead of receiving the same value.
+   * Pass the manager of the transaction that stores the numbered record -
+   * if that transaction rolls back the value is released again, which keeps
+   * the numbering free of gaps.
+   */
+  async next(name: string, year: number, manager?: EntityManager): Promise<number> {
+    const rows: Array<{ value: number }> = await (manager ?? this.sequencesRepository.manager).query(
+      `INSERT INTO sequences (name, year, value, "updatedAt")
+       VALUES ($1, $2, 1, now())
+       ON CONFLICT (name, year)
+       DO UPDATE SET value = sequences.value + 1, "updatedAt" = now()
+       RETURNING value`,
+      [name, year],
+    );
+    return Number(rows[0].value);
+  }
+
+  /**
+   * Render a number from a format pattern.
+   * Supported tokens: {YYYY}, {YY}, {MM}, {SEQ} and {SEQ:n} (zero padded to n digits).
+   * Example: "{YYYY}-{SEQ:6}" -> "2026-000123"
+   */
+  format(pattern: string, value: number, date: Date = new Date()): string {
+    return pattern
+      .replace(/\{YYYY\}/g, String(date.getFullYear()))
+      .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+      .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+      .replace(/\{SEQ(?::(\d+))?\}/g, (_, width?: string) => String(value).padStart(Number(width ?? 0), '0'));
+  }
+}
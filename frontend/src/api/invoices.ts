@@ -0,0 +1,10 @@
+import api from './index'
+
+export const invoicesApi = {
+  downloadPdf: async (orderId: string): Promise<Blob> => {
+    const response = await api.get(`/invoices/order/${orderId}/pdf`, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
+}
@@ -1,5 +1,22 @@
 import api from './index'
-import type { Order, CreateOrderData, PaginatedResponse, UpdateOrderStatusData } from '@/types'
+import type {
+  Order,
+  OrdersQuery,
+  OrdersExportQuery,
+  CreateOrderData,
+  PaginatedResponse,
+  UpdateOrderStatusData,
+  OrderNote,
+  OrderNoteVisibility,
+  OrderEdit,
+  OrderAddress,
+  ReorderResult,
+  BulkOperationResult,
+  OrderStatus,
+  ShippingCarrier,
+  CreateShipmentData,
+  UpdateShipmentData,
+} from '@/types'
 
 export const ordersApi = {
   create: async (orderData: CreateOrderData): Promise<Order> => {
@@ -7,11 +24,19 @@ export const ordersApi = {
     return data
   },
 
-  getAll: async (page = 1, limit = 20): Promise<PaginatedResponse<Order>> => {
-    const { data } = await api.get<PaginatedResponse<Order>>('/orders', { params: { page, limit } })
+  getAll: async (query?: OrdersQuery): Promise<PaginatedResponse<Order>> => {
+    const { data } = await api.get<PaginatedResponse<Order>>('/orders', { params: query })
     return data
   },
 
+  export: async (query: OrdersExportQuery): Promise<Blob> => {
+    const response = await api.get('/orders/export', {
+      params: query,
+      responseType: 'blob',
+    })
+    return response.data
+  },
+
   getMyOrders: async (page = 1, limit = 20): Promise<PaginatedResponse<Order>> => {
     const { data } = await api.get<PaginatedResponse<Order>>('/orders/my-orders', { params: { page, limit } })
     return data
@@ -22,8 +47,23 @@ export const ordersApi = {
     return data
   },
 
-  getByOrderNumber: async (orderNumber: string): Promise<Order> => {
-    const { data } = await api.get<Order>(`/orders/number/${orderNumber}`)
+  getByOrderNumber: async (orderNumber: string, accessToken?: string): Promise<Order> => {
+    const { data } = await api.get<Order>(`/orders/number/${encodeURIComponent(orderNumber)}`, {
+      headers: accessToken ? { 'x-order-token': accessToken } : undefined,
+    })
+    return data
+  },
+
+  requestAccessLink: async (orderNumber: string, email: string): Promise<{ message: string }> => {
+    const { data } = await api.post<{ message: string }>('/orders/access/request', { orderNumber, email })
+    return data
+  },
+
+  getAccessForPayment: async (
+    paymentIntentId: string,
+    clientSecret: string
+  ): Promise<{ orderId: string; orderNumber: string; accessToken: string | null }> => {
+    const { data } = await api.post('/orders/access/payment', { paymentIntentId, clientSecret })
     return data
   },
 
@@ -31,4 +71,106 @@ export const ordersApi = {
     const { data } = await api.patch<Order>(`/orders/${id}/status`, status)
     return data
   },
+
+  cancel: async (id: string, reason: string): Promise<Order> => {
+    const { data } = await api.post<Order>(`/orders/${id}/cancel`, { reason })
+    return data
+  },
+
+  getShippingCarriers: async (): Promise<ShippingCarrier[]> => {
+    const { data } = await api.get<ShippingCarrier[]>('/orders/shipping-carriers')
+    return data
+  },
+
+  addShipment: async (id: string, shipment: CreateShipmentData): Promise<Order> => {
+    const { data } = await api.post<Order>(`/orders/${id}/shipments`, shipment)
+    return data
+  },
+
+  updateShipment: async (id: string, shipmentId: string, shipment: UpdateShipmentData): Promise<Order> => {
+    const { data } = await api.patch<Order>(`/orders/${id}/shipments/${shipmentId}`, shipment)
+    return data
+  },
+
+  reorder: async (id: string): Promise<ReorderResult> => {
+    const { data } = await api.post<ReorderResult>(`/orders/${id}/reorder`)
+    return data
+  },
+
+  getNotes: async (id: string): Promise<OrderNote[]> => {
+    const { data } = await api.get<OrderNote[]>(`/orders/${id}/notes`)
+    return data
+  },
+
+  addNote: async (id: string, content: string, visibility: OrderNoteVisibility): Promise<OrderNote> => {
+    const { data } = await api.post<OrderNote>(`/orders/${id}/notes`, { content, visibility })
+    return data
+  },
+
+  getEdits: async (id: string): Promise<OrderEdit[]> => {
+    const { data } = await api.get<OrderEdit[]>(`/orders/${id}/edits`)
+    return data
+  },
+
+  addItem: async (
+    id: string,
+    item: { productId: string; variantId?: string; quantity: number; reason?: string }
+  ): Promise<Order> => {
+    const { data } = await api.post<Order>(`/orders/${id}/items`, item)
+    return data
+  },
+
+  updateItem: async (id: string, itemId: string, quantity: number, reason?: string): Promise<Order> => {
+    const { data } = await api.patch<Order>(`/orders/${id}/items/${itemId}`, { quantity, reason })
+    return data
+  },
+
+  removeItem: async (id: string, itemId: string, reason?: string): Promise<Order> => {
+    const { data } = await api.delete<Order>(`/orders/${id}/items/${itemId}`, { params: { reason } })
+    return data
+  },
+
+  updateAddresses: async (
+    id: string,
+    addresses: { shippingAddress?: OrderAddress; billingAddress?: OrderAddress; reason?: string }
+  ): Promise<Order> => {
+    const { data } = await api.patch<Order>(`/orders/${id}/addresses`, addresses)
+    return data
+  },
+
+  bulkUpdateStatus: async (orderIds: string[], status: OrderStatus, reason?: string): Promise<BulkOperationResult> => {
+    const { data } = await api.post<BulkOperationResult>('/orders/bulk/status', { orderIds, status, reason })
+    return data
+  },
+
+  bulkImportTracking: async (file: File, markShipped = true): Promise<BulkOperationResult> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('markShipped', String(markShipped))
+    const { data } = await api.post<BulkOperationResult>('/orders/bulk/tracking', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+    return data
+  },
+
+  bulkPackingSlips: async (orderIds: string[]): Promise<Blob> => {
+    const response = await api.post('/orders/bulk/packing-slips', { orderIds }, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
+
+  bulkPickList: async (orderIds: string[]): Promise<Blob> => {
+    const response = await api.post('/orders/bulk/pick-list', { orderIds }, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
+
+  getPackingSlip: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/orders/${id}/packing-slip`, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
 }
@@ -1,4 +1,21 @@
 import api from './index'
+import type {
+  Refund,
+  CreateRefundData,
+  WebhookEvent,
+  WebhookEventsQuery,
+  CheckoutFailure,
+  CheckoutFailureStatus,
+  PaymentTransaction,
+  PaymentTransactionsQuery,
+  PaymentTransactionTotals,
+  PaginatedResponse,
+  Order,
+  PaymentMethod,
+  CashOnDeliveryTerms,
+  BankTransferInstructions,
+  BankStatementImportResult
+} from '@/types'
 
 export interface CheckoutIntentData {
   guestEmail?: string
@@ -32,18 +49,132 @@ export interface CheckoutIntentResponse {
   clientSecret: string
   paymentIntentId: string
   amount: number
+  // The mock provider simulates payments without Stripe, for development
+  provider: 'stripe' | 'mock'
+}
+
+// Checkouts that place the order straight away, without a card payment
+export interface DirectCheckoutResponse {
+  orderId: string
+  orderNumber: string
+  accessToken: string | null
 }
 
 export const paymentsApi = {
+  getPaymentMethods: async (): Promise<PaymentMethod[]> => {
+    const { data } = await api.get<PaymentMethod[]>('/payments/methods')
+    return data
+  },
+
   createCheckoutIntent: async (data: CheckoutIntentData): Promise<CheckoutIntentResponse> => {
     const { data: response } = await api.post<CheckoutIntentResponse>('/payments/create-checkout-intent', data)
     return response
   },
 
+  // Only for payments of the mock provider; Stripe.js confirms card payments itself
+  confirmPayment: async (paymentIntentId: string, clientSecret: string, paymentMethod: string): Promise<void> => {
+    await api.post(`/payments/payment-intents/${paymentIntentId}/confirm`, { clientSecret, paymentMethod })
+  },
+
+  bankTransferCheckout: async (data: CheckoutIntentData): Promise<DirectCheckoutResponse> => {
+    const { data: response } = await api.post<DirectCheckoutResponse>('/payments/bank-transfer/checkout', data)
+    return response
+  },
+
+  getCashOnDeliveryTerms: async (): Promise<CashOnDeliveryTerms> => {
+    const { data } = await api.get<CashOnDeliveryTerms>('/payments/cash-on-delivery')
+    return data
+  },
+
+  cashOnDeliveryCheckout: async (data: CheckoutIntentData): Promise<DirectCheckoutResponse> => {
+    const { data: response } = await api.post<DirectCheckoutResponse>('/payments/cash-on-delivery/checkout', data)
+    return response
+  },
+
+  getBankTransferInstructions: async (orderNumber: string, accessToken?: string): Promise<BankTransferInstructions> => {
+    const { data } = await api.get<BankTransferInstructions>(
+      `/payments/bank-transfer/orders/${encodeURIComponent(orderNumber)}`,
+      { headers: accessToken ? { 'x-order-token': accessToken } : undefined }
+    )
+    return data
+  },
+
+  markBankTransferPaid: async (orderId: string, amount?: number): Promise<Order> => {
+    const { data } = await api.post<Order>(`/payments/bank-transfer/orders/${orderId}/mark-paid`, { amount })
+    return data
+  },
+
+  importBankStatement: async (file: File): Promise<BankStatementImportResult> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    const { data } = await api.post<BankStatementImportResult>('/payments/bank-transfer/statements', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+    return data
+  },
+
   // Legacy method for existing orders
   createPaymentIntent: async (orderId: string): Promise<{ clientSecret: string }> => {
     const { data } = await api.post<{ clientSecret: string }>(`/payments/create-payment-intent/${orderId}`)
     return data
   },
-}
 
+  getRefunds: async (orderId: string): Promise<Refund[]> => {
+    const { data } = await api.get<Refund[]>(`/payments/orders/${orderId}/refunds`)
+    return data
+  },
+
+  createRefund: async (orderId: string, refund: CreateRefundData): Promise<Refund> => {
+    const { data } = await api.post<Refund>(`/payments/orders/${orderId}/refunds`, refund)
+    return data
+  },
+
+  getOrderTransactions: async (orderId: string): Promise<PaymentTransaction[]> => {
+    const { data } = await api.get<PaymentTransaction[]>(`/payments/orders/${orderId}/transactions`)
+    return data
+  },
+
+  getTransactions: async (query?: PaymentTransactionsQuery): Promise<PaginatedResponse<PaymentTransaction>> => {
+    const { data } = await api.get<PaginatedResponse<PaymentTransaction>>('/payments/transactions', { params: query })
+    return data
+  },
+
+  getTransactionSummary: async (
+    query?: Pick<PaymentTransactionsQuery, 'provider' | 'dateFrom' | 'dateTo'>
+  ): Promise<PaymentTransactionTotals[]> => {
+    const { data } = await api.get<PaymentTransactionTotals[]>('/payments/transactions/summary', { params: query })
+    return data
+  },
+
+  getWebhookEvents: async (query?: WebhookEventsQuery): Promise<PaginatedResponse<WebhookEvent>> => {
+    const { data } = await api.get<PaginatedResponse<WebhookEvent>>('/payments/webhook-events', { params: query })
+    return data
+  },
+
+  getWebhookEvent: async (id: string): Promise<WebhookEvent> => {
+    const { data } = await api.get<WebhookEvent>(`/payments/webhook-events/${id}`)
+    return data
+  },
+
+  replayWebhookEvent: async (id: string): Promise<WebhookEvent> => {
+    const { data } = await api.post<WebhookEvent>(`/payments/webhook-events/${id}/replay`)
+    return data
+  },
+
+  getCheckoutFailures: async (
+    query?: { page?: number; limit?: number; status?: CheckoutFailureStatus }
+  ): Promise<PaginatedResponse<CheckoutFailure>> => {
+    const { data } = await api.get<PaginatedResponse<CheckoutFailure>>('/payments/checkout-failures', { params: query })
+    return data
+  },
+
+  retryCheckoutFailure: async (id: string): Promise<CheckoutFailure> => {
+    const { data } = await api.post<CheckoutFailure>(`/payments/checkout-failures/${id}/retry`)
+    return data
+  },
+
+  dismissCheckoutFailure: async (id: string, note: string): Promise<CheckoutFailure> => {
+    const { data } = await api.post<CheckoutFailure>(`/payments/checkout-failures/${id}/dismiss`, { note })
+    return data
+  },
+}
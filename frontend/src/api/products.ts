@@ -1,5 +1,5 @@
 import api from './index'
-import type { Product, PaginatedResponse, ProductsQuery } from '@/types'
+import type { Product, PaginatedResponse, ProductsQuery, LowStockItem } from '@/types'
 
 export interface ImportResult {
   success: number
@@ -61,6 +61,16 @@ export const productsApi = {
     return data
   },
 
+  updateVariantStock: async (id: string, variantId: string, quantity: number): Promise<Product> => {
+    const { data } = await api.patch<Product>(`/products/${id}/variants/${variantId}/stock`, { quantity })
+    return data
+  },
+
+  getLowStock: async (limit = 20): Promise<LowStockItem[]> => {
+    const { data } = await api.get<LowStockItem[]>('/products/low-stock', { params: { limit } })
+    return data
+  },
+
   // Import/Export methods
   importCSV: async (file: File): Promise<ImportResult> => {
     const formData = new FormData()
@@ -0,0 +1,53 @@
+import api from './index'
+import type {
+  ReturnRequest,
+  ReturnStatus,
+  CreateReturnRequestData,
+  ReceiveReturnRequestData,
+  PaginatedResponse,
+} from '@/types'
+
+export const returnsApi = {
+  create: async (returnData: CreateReturnRequestData): Promise<ReturnRequest> => {
+    const { data } = await api.post<ReturnRequest>('/returns', returnData)
+    return data
+  },
+
+  uploadPhotos: async (files: File[]): Promise<Array<{ url: string; filename: string }>> => {
+    const formData = new FormData()
+    files.forEach((file) => {
+      formData.append('files', file)
+    })
+    const { data } = await api.post<Array<{ url: string; filename: string }>>('/returns/photos', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+    return data
+  },
+
+  getAll: async (status?: ReturnStatus, page = 1, limit = 20): Promise<PaginatedResponse<ReturnRequest>> => {
+    const { data } = await api.get<PaginatedResponse<ReturnRequest>>('/returns', {
+      params: { status: status || undefined, page, limit },
+    })
+    return data
+  },
+
+  getForOrder: async (orderId: string): Promise<ReturnRequest[]> => {
+    const { data } = await api.get<ReturnRequest[]>(`/returns/order/${orderId}`)
+    return data
+  },
+
+  approve: async (id: string, note?: string): Promise<ReturnRequest> => {
+    const { data } = await api.post<ReturnRequest>(`/returns/${id}/approve`, { note })
+    return data
+  },
+
+  reject: async (id: string, note: string): Promise<ReturnRequest> => {
+    const { data } = await api.post<ReturnRequest>(`/returns/${id}/reject`, { note })
+    return data
+  },
+
+  receive: async (id: string, receiveData: ReceiveReturnRequestData): Promise<ReturnRequest> => {
+    const { data } = await api.post<ReturnRequest>(`/returns/${id}/receive`, receiveData)
+    return data
+  },
+}
@@ -108,6 +108,7 @@ export default {
     quickLinks: 'Quick Links',
     account: 'Account',
     contact: 'Contact',
+    findOrder: 'Find My Order',
     copyright: '© {year} Arbotrade. All rights reserved.',
   },
 
@@ -182,6 +183,7 @@ export default {
     updateFailed: 'Failed to update quantity',
     itemRemoved: 'Item removed from cart',
     removeFailed: 'Failed to remove item',
+    onlyAvailable: 'Only {count} available right now',
   },
 
   // Login Page
@@ -293,11 +295,83 @@ export default {
     orderSummary: 'Order Summary',
     subtotal: 'Subtotal',
     shipping: 'Shipping',
+    codFee: 'Cash on delivery fee',
     tax: 'Tax',
     total: 'Total',
     orderNotFound: 'Order not found',
   },
 
+  // Guest order lookup
+  orderLookup: {
+    title: 'Find My Order',
+    intro: 'Ordered without an account? Enter your order number and the email address you used at checkout and we will email you a link to your order.',
+    orderNumber: 'Order number',
+    email: 'Email address',
+    submit: 'Send Link',
+    sent: 'If the details match an order, a link to it is on its way to your inbox.',
+    failed: 'Something went wrong. Please try again in a minute.',
+    linkInvalid: 'This link is invalid or has expired. Request a new one below.',
+    order: 'Order',
+    placedOn: 'Placed on',
+    items: 'Items',
+    quantity: 'Qty',
+    shippingAddress: 'Shipping Address',
+    timeline: 'Order Timeline',
+  },
+
+  // Status history on the order pages
+  orderTimeline: {
+    empty: 'No status changes yet.',
+    placed: 'Order placed',
+    statusChange: 'Status: {from} → {to}',
+    paymentChange: 'Payment: {from} → {to}',
+    by: 'by {name}',
+    system: 'System',
+    status: {
+      pending: 'Pending',
+      processing: 'Processing',
+      paid: 'Paid',
+      partially_shipped: 'Partially shipped',
+      shipped: 'Shipped',
+      delivered: 'Delivered',
+      cancelled: 'Cancelled',
+      refunded: 'Refunded',
+    },
+    paymentStatus: {
+      pending: 'Unpaid',
+      paid: 'Paid',
+      failed: 'Failed',
+      partially_refunded: 'Partially refunded',
+      refunded: 'Refunded',
+    },
+  },
+
+  // Shipments on the order pages
+  shipments: {
+    title: 'Shipments',
+    trackingNumber: 'Tracking number',
+    track: 'Track parcel',
+    toFollow: 'Still to follow',
+    status: {
+      shipped: 'Shipped',
+      in_transit: 'In transit',
+      delivered: 'Delivered',
+      returned: 'Returned to sender',
+    },
+  },
+
+  bankTransfer: {
+    title: 'Pay by bank transfer',
+    intro: 'Scan the UPN QR code in your banking app or enter these details:',
+    recipient: 'Recipient',
+    amount: 'Amount',
+    reference: 'Reference',
+    purpose: 'Purpose',
+    dueDate: 'Pay by',
+    note: 'We will ship your order once the payment arrives.',
+    loadError: 'The payment details could not be loaded.',
+  },
+
   // Category Page
   categoryPage: {
     noProducts: 'No products found',
@@ -108,6 +108,7 @@ export default {
     quickLinks: 'Hitre povezave',
     account: 'Račun',
     contact: 'Kontakt',
+    findOrder: 'Poišči naročilo',
     copyright: '© {year} Arbotrade. Vse pravice pridržane.',
   },
 
@@ -182,6 +183,7 @@ export default {
     updateFailed: 'Posodobitev količine ni uspela',
     itemRemoved: 'Izdelek je bil odstranjen iz košarice',
     removeFailed: 'Odstranitev izdelka ni uspela',
+    onlyAvailable: 'Trenutno na voljo le {count}',
   },
 
   // Login Page
@@ -293,11 +295,83 @@ export default {
     orderSummary: 'Povzetek naročila',
     subtotal: 'Vmesni seštevek',
     shipping: 'Dostava',
+    codFee: 'Strošek plačila po povzetju',
     tax: 'Davek',
     total: 'Skupaj',
     orderNotFound: 'Naročilo ni bilo najdeno',
   },
 
+  // Guest order lookup
+  orderLookup: {
+    title: 'Poišči naročilo',
+    intro: 'Ste naročili brez računa? Vpišite številko naročila in e-poštni naslov, ki ste ga uporabili pri nakupu, in poslali vam bomo povezavo do naročila.',
+    orderNumber: 'Številka naročila',
+    email: 'E-poštni naslov',
+    submit: 'Pošlji povezavo',
+    sent: 'Če se podatki ujemajo z naročilom, je povezava do njega na poti v vaš poštni predal.',
+    failed: 'Prišlo je do napake. Poskusite znova čez minuto.',
+    linkInvalid: 'Povezava je neveljavna ali je potekla. Spodaj zahtevajte novo.',
+    order: 'Naročilo',
+    placedOn: 'Oddano',
+    items: 'Izdelki',
+    quantity: 'Kol.',
+    shippingAddress: 'Naslov za dostavo',
+    timeline: 'Potek naročila',
+  },
+
+  // Status history on the order pages
+  orderTimeline: {
+    empty: 'Status se še ni spremenil.',
+    placed: 'Naročilo oddano',
+    statusChange: 'Status: {from} → {to}',
+    paymentChange: 'Plačilo: {from} → {to}',
+    by: 'spremenil: {name}',
+    system: 'Sistem',
+    status: {
+      pending: 'V čakanju',
+      processing: 'V obdelavi',
+      paid: 'Plačano',
+      partially_shipped: 'Delno odposlano',
+      shipped: 'Odposlano',
+      delivered: 'Dostavljeno',
+      cancelled: 'Preklicano',
+      refunded: 'Povrnjeno',
+    },
+    paymentStatus: {
+      pending: 'Neplačano',
+      paid: 'Plačano',
+      failed: 'Neuspešno',
+      partially_refunded: 'Delno povrnjeno',
+      refunded: 'Povrnjeno',
+    },
+  },
+
+  // Shipments on the order pages
+  shipments: {
+    title: 'Pošiljke',
+    trackingNumber: 'Številka za sledenje',
+    track: 'Sledi pošiljki',
+    toFollow: 'Sledi v naslednji pošiljki',
+    status: {
+      shipped: 'Odposlano',
+      in_transit: 'Na poti',
+      delivered: 'Dostavljeno',
+      returned: 'Vrnjeno pošiljatelju',
+    },
+  },
+
+  bankTransfer: {
+    title: 'Plačilo z bančnim nakazilom',
+    intro: 'Skenirajte UPN QR kodo v mobilni banki ali vnesite te podatke:',
+    recipient: 'Prejemnik',
+    amount: 'Znesek',
+    reference: 'Sklic',
+    purpose: 'Namen',
+    dueDate: 'Rok plačila',
+    note: 'Naročilo bomo odposlali, ko prejmemo plačilo.',
+    loadError: 'Podatkov za plačilo ni bilo mogoče naložiti.',
+  },
+
   // Category Page
   categoryPage: {
     noProducts: 'Ni izdelkov',
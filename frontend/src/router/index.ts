@@ -50,6 +50,16 @@ const router = createRouter({
       name: 'order-confirmation',
       component: () => import('@/views/OrderConfirmationView.vue'),
     },
+    {
+      path: '/orders/:orderNumber',
+      name: 'guest-order',
+      component: () => import('@/views/GuestOrderView.vue'),
+    },
+    {
+      path: '/find-order',
+      name: 'find-order',
+      component: () => import('@/views/FindOrderView.vue'),
+    },
     {
       path: '/login',
       name: 'login',
@@ -142,6 +152,26 @@ const router = createRouter({
           name: 'admin-order-detail',
           component: () => import('@/views/admin/OrderDetailView.vue'),
         },
+        {
+          path: 'returns',
+          name: 'admin-returns',
+          component: () => import('@/views/admin/ReturnsListView.vue'),
+        },
+        {
+          path: 'webhook-events',
+          name: 'admin-webhook-events',
+          component: () => import('@/views/admin/WebhookEventsView.vue'),
+        },
+        {
+          path: 'payment-transactions',
+          name: 'admin-payment-transactions',
+          component: () => import('@/views/admin/PaymentTransactionsView.vue'),
+        },
+        {
+          path: 'payment-issues',
+          name: 'admin-payment-issues',
+          component: () => import('@/views/admin/PaymentIssuesView.vue'),
+        },
         {
           path: 'users',
           name: 'admin-users',
@@ -61,11 +61,24 @@ export interface ProductVariant {
   sku?: string
   price?: number
   stock: number
+  reservedStock?: number // Held by checkouts awaiting payment
+  availableStock?: number
   attributes?: Record<string, string>
   imageUrl?: string
   isActive: boolean
 }
 
+export interface LowStockItem {
+  productId: string
+  productName: string
+  variantId?: string
+  variantName?: string
+  sku?: string
+  imageUrl?: string
+  stock: number
+  threshold: number
+}
+
 export interface ProductDocument {
   name: string
   link: string
@@ -88,10 +101,12 @@ export interface Product {
   width?: number
   height?: number
   stock: number
-  lowStockThreshold: number
+  lowStockThreshold: number | null
   outOfStockMessage?: string // Custom message when out of stock
   trackInventory: boolean
   allowBackorder: boolean
+  reservedStock?: number // Held by checkouts awaiting payment
+  availableStock?: number
   status: 'draft' | 'published' | 'archived'
   isFeatured: boolean
   isActive?: boolean
@@ -207,8 +222,22 @@ export interface OrderItem {
   imageUrl?: string
 }
 
-export type OrderStatus = 'pending' | 'processing' | 'paid' | 'shipped' | 'delivered' | 'cancelled' | 'refunded'
-export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded'
+export type OrderStatus = 'pending' | 'processing' | 'paid' | 'partially_shipped' | 'shipped' | 'delivered' | 'cancelled' | 'refunded'
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded'
+export type PaymentMethod = 'card' | 'bank_transfer' | 'cash_on_delivery'
+
+export interface OrderStatusHistoryEntry {
+  id: string
+  orderId: string
+  fromStatus: OrderStatus | null
+  toStatus: OrderStatus
+  fromPaymentStatus: PaymentStatus | null
+  toPaymentStatus: PaymentStatus
+  changedById?: string
+  changedByName?: string
+  reason?: string
+  createdAt: string
+}
 
 export interface Order {
   id: string
@@ -221,11 +250,14 @@ export interface Order {
   tax: number
   taxAmount?: number
   shippingCost: number
+  codFee?: number
   discount: number
   total: number
+  amountPaid?: number | null
   status: OrderStatus
   paymentStatus: PaymentStatus
   paymentMethod?: string
+  paymentReference?: string | null
   paymentIntentId?: string
   shippingAddress: OrderAddress
   billingAddress?: OrderAddress
@@ -237,6 +269,349 @@ export interface Order {
   paidAt?: string
   shippedAt?: string
   deliveredAt?: string
+  cancelledAt?: string
+  cancellationReason?: string
+  statusHistory?: OrderStatusHistoryEntry[]
+  shipments?: Shipment[]
+}
+
+export type ShipmentCarrier = 'posta_slovenije' | 'gls' | 'dpd' | 'express_one' | 'other'
+
+export type ShipmentStatus = 'shipped' | 'in_transit' | 'delivered' | 'returned'
+
+export interface Shipment {
+  id: string
+  orderId: string
+  carrier: ShipmentCarrier
+  carrierName?: string
+  trackingNumber: string
+  trackingUrl?: string | null
+  status: ShipmentStatus
+  // Cash the carrier collects on delivery
+  codAmount?: number | null
+  deliveredAt?: string | null
+  items?: ShipmentItem[]
+  createdByName?: string
+  createdAt: string
+}
+
+export interface ShipmentItem {
+  id: string
+  orderItemId: string
+  quantity: number
+}
+
+export interface ShippingCarrier {
+  code: ShipmentCarrier
+  name: string
+  trackingUrlTemplate: string | null
+}
+
+export interface CreateShipmentData {
+  carrier: ShipmentCarrier
+  trackingNumber: string
+  trackingUrl?: string
+  items?: { orderItemId: string; quantity: number }[]
+  markShipped?: boolean
+}
+
+export interface UpdateShipmentData {
+  status?: ShipmentStatus
+  carrier?: ShipmentCarrier
+  trackingNumber?: string
+  trackingUrl?: string
+}
+
+export interface OrdersQuery {
+  page?: number
+  limit?: number
+  search?: string
+  status?: OrderStatus
+  paymentStatus?: PaymentStatus
+  dateFrom?: string
+  dateTo?: string
+  minTotal?: number
+  maxTotal?: number
+  sortBy?: string
+  sortOrder?: 'ASC' | 'DESC'
+}
+
+export interface OrdersExportQuery {
+  format?: 'csv' | 'xlsx'
+  rows?: 'order' | 'item'
+  dateField?: 'createdAt' | 'paidAt'
+  dateFrom?: string
+  dateTo?: string
+  status?: OrderStatus
+  paymentStatus?: PaymentStatus
+}
+
+export interface BulkOrderResult {
+  orderId?: string
+  orderNumber?: string
+  success: boolean
+  error?: string
+}
+
+export interface BulkOperationResult {
+  succeeded: number
+  failed: number
+  results: BulkOrderResult[]
+}
+
+export interface ReorderLine {
+  orderItemId: string
+  productName: string
+  variantName?: string
+  quantity: number
+}
+
+export interface ReorderResult {
+  cart: Cart
+  added: ReorderLine[]
+  skipped: (ReorderLine & { reason: 'unavailable' | 'out_of_stock' | 'insufficient_stock' })[]
+  priceChanged: (ReorderLine & { previousPrice: number; currentPrice: number })[]
+}
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed' | 'canceled'
+
+export interface RefundLineItem {
+  orderItemId: string
+  quantity: number
+  amount: number
+}
+
+export interface Refund {
+  id: string
+  orderId: string
+  amount: number
+  currency: string
+  status: RefundStatus
+  reason?: string
+  stripeRefundId?: string
+  items?: RefundLineItem[] | null
+  restocked: boolean
+  createdById?: string
+  createdByName?: string
+  createdAt: string
+}
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed' | 'ignored'
+
+export interface WebhookEvent {
+  id: string
+  stripeEventId: string
+  provider: string
+  type: string
+  status: WebhookEventStatus
+  paymentIntentId?: string | null
+  attempts: number
+  lastError?: string | null
+  processedAt?: string | null
+  payload?: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WebhookEventsQuery {
+  page?: number
+  limit?: number
+  status?: WebhookEventStatus
+  type?: string
+  search?: string
+}
+
+export type PaymentTransactionType = 'authorization' | 'capture' | 'failure' | 'refund' | 'fee'
+
+export interface PaymentTransaction {
+  id: string
+  orderId?: string | null
+  order?: Pick<Order, 'id' | 'orderNumber'> | null
+  type: PaymentTransactionType
+  // stripe, mock, bank_transfer or cash_on_delivery
+  provider: string
+  amount: number
+  currency: string
+  paymentId?: string | null
+  providerReference?: string | null
+  providerStatus?: string | null
+  description?: string | null
+  createdByName?: string | null
+  createdAt: string
+}
+
+export interface PaymentTransactionsQuery {
+  page?: number
+  limit?: number
+  type?: PaymentTransactionType
+  provider?: string
+  dateFrom?: string
+  dateTo?: string
+  search?: string
+}
+
+export interface PaymentTransactionTotals {
+  provider: string
+  currency: string
+  authorized: number
+  captured: number
+  refunded: number
+  fees: number
+  net: number
+  failures: number
+  transactions: number
+}
+
+export type CheckoutFailureStatus = 'open' | 'resolved' | 'dismissed'
+
+export interface CheckoutFailure {
+  id: string
+  paymentIntentId: string
+  status: CheckoutFailureStatus
+  amount: number
+  currency: string
+  customerEmail?: string | null
+  metadata: Record<string, string>
+  lastError: string
+  attempts: number
+  orderId?: string | null
+  resolutionNote?: string | null
+  resolvedByName?: string | null
+  resolvedAt?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CashOnDeliveryTerms {
+  enabled: boolean
+  fee: number
+  countries: string[]
+  maxOrderValue: number | null
+}
+
+export interface BankTransferInstructions {
+  recipientName: string
+  recipientAddress: string
+  iban: string
+  bic?: string
+  reference: string
+  amount: number
+  purpose: string
+  dueDate: string
+  paid: boolean
+  qrCode: string
+}
+
+export interface BankStatementLineResult {
+  reference: string
+  amount: number
+  orderId?: string
+  orderNumber?: string
+  success: boolean
+  error?: string
+}
+
+export interface BankStatementImportResult {
+  succeeded: number
+  failed: number
+  results: BankStatementLineResult[]
+}
+
+export interface CreateRefundData {
+  amount?: number
+  items?: Array<{ orderItemId: string; quantity: number }>
+  reason?: string
+  restock?: boolean
+}
+
+export type OrderNoteVisibility = 'internal' | 'customer'
+
+export interface OrderNote {
+  id: string
+  orderId: string
+  content: string
+  visibility: OrderNoteVisibility
+  authorId?: string
+  authorName?: string
+  createdAt: string
+}
+
+export type OrderEditAction = 'item_added' | 'item_removed' | 'item_quantity_changed' | 'address_changed'
+
+export interface OrderEdit {
+  id: string
+  orderId: string
+  action: OrderEditAction
+  changes: {
+    orderItemId?: string
+    productName?: string
+    before?: Record<string, unknown> | null
+    after?: Record<string, unknown> | null
+  }
+  previousTotal: number
+  newTotal: number
+  reason?: string
+  editedById?: string
+  editedByName?: string
+  createdAt: string
+}
+
+// Returns
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received'
+
+export type ReturnReason = 'wrong_size' | 'defective' | 'not_as_described' | 'wrong_item' | 'changed_mind' | 'other'
+
+export type ItemCondition = 'unopened' | 'unused' | 'used' | 'damaged'
+
+export interface ReturnRequestItem {
+  id: string
+  orderItemId: string
+  orderItem?: OrderItem
+  quantity: number
+  reason: ReturnReason
+  condition: ItemCondition
+  receivedCondition?: ItemCondition | null
+  restocked: boolean
+}
+
+export interface ReturnRequest {
+  id: string
+  returnNumber: string
+  orderId: string
+  order?: Order
+  userId?: string
+  items: ReturnRequestItem[]
+  status: ReturnStatus
+  customerNote?: string
+  photos: string[]
+  staffNote?: string
+  reviewedByName?: string
+  reviewedAt?: string
+  receivedByName?: string
+  receivedAt?: string
+  refundId?: string
+  refundAmount?: number | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateReturnRequestData {
+  orderId: string
+  items: Array<{
+    orderItemId: string
+    quantity: number
+    reason: ReturnReason
+    condition: ItemCondition
+  }>
+  customerNote?: string
+  photos?: string[]
+}
+
+export interface ReceiveReturnRequestData {
+  items?: Array<{ id: string; condition?: ItemCondition; restock?: boolean }>
+  refund?: boolean
+  refundAmount?: number
+  note?: string
 }
 
 export interface CreateOrderData {
@@ -253,6 +628,7 @@ export interface UpdateOrderStatusData {
   status?: OrderStatus
   paymentStatus?: PaymentStatus
   trackingNumber?: string
+  reason?: string
 }
 
 // Pagination
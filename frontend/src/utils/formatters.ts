@@ -51,3 +51,12 @@ export function formatPrice(price: number): string {
     currency: 'EUR'
   }).format(price)
 }
+
+/**
+ * Turn a status value into words, e.g. partially_shipped -> partially shipped
+ * @param status - Status value as sent by the API
+ * @returns Status with underscores replaced by spaces
+ */
+export function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ')
+}